@@ -1,17 +1,26 @@
 'use client';
 
 import { analyzeTaxBrackets } from '../lib/simulation';
-import { getStandardDeduction } from '../lib/taxEngine';
+import { getStandardDeduction, LATEST_TAX_YEAR, DEFAULT_TAX_INFLATION_RATE, FILING_STATUS_LABELS } from '../lib/taxEngine';
+import { FilingStatus } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui';
 
 interface BracketAnalysisProps {
   currentIncome: number;
   traditionalBalance: number;
-  filingStatus: 'single' | 'mfj';
+  filingStatus: FilingStatus;
+  taxYear?: number;
+  taxInflationRate?: number;
 }
 
-export function BracketAnalysis({ currentIncome, traditionalBalance, filingStatus }: BracketAnalysisProps) {
-  const bracketAnalysis = analyzeTaxBrackets(currentIncome, traditionalBalance, filingStatus);
+export function BracketAnalysis({
+  currentIncome,
+  traditionalBalance,
+  filingStatus,
+  taxYear = LATEST_TAX_YEAR,
+  taxInflationRate = DEFAULT_TAX_INFLATION_RATE
+}: BracketAnalysisProps) {
+  const bracketAnalysis = analyzeTaxBrackets(currentIncome, traditionalBalance, filingStatus, taxYear, taxInflationRate);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -54,7 +63,7 @@ export function BracketAnalysis({ currentIncome, traditionalBalance, filingStatu
               <div>
                 <p className="mb-3"><strong>Current Income:</strong> {formatCurrency(currentIncome)}</p>
                 <p className="mb-3"><strong>Traditional IRA Balance:</strong> {formatCurrency(traditionalBalance)}</p>
-                <p><strong>Filing Status:</strong> {filingStatus === 'mfj' ? 'Married Filing Jointly' : 'Single'}</p>
+                <p><strong>Filing Status:</strong> {FILING_STATUS_LABELS[filingStatus]}</p>
               </div>
               <div>
                 <p className="mb-3"><strong>Current Tax Bracket:</strong> {formatPercentage(currentTaxRate)}</p>
@@ -66,7 +75,7 @@ export function BracketAnalysis({ currentIncome, traditionalBalance, filingStatu
 
           {/* Tax Brackets Table */}
           <div>
-            <h4 className="font-bold mb-6 text-2xl">2025 Federal Tax Brackets</h4>
+            <h4 className="font-bold mb-6 text-2xl">{taxYear} Federal Tax Brackets</h4>
             <div className="overflow-x-auto bg-gray-50 rounded-3xl p-6">
               <table className="w-full text-lg">
                 <thead>
@@ -127,7 +136,7 @@ export function BracketAnalysis({ currentIncome, traditionalBalance, filingStatu
                   Convert up to the next bracket threshold, accepting a higher tax rate for more Roth conversion.
                 </p>
                 <p className="font-bold text-2xl text-blue-600">
-                  {formatCurrency(Math.max(0, (bracketAnalysis.find(b => b.rate > bracketAnalysis[0]?.rate)?.maxIncome || 0) - (currentIncome - getStandardDeduction(filingStatus))))}
+                  {formatCurrency(Math.max(0, (bracketAnalysis.find(b => b.rate > bracketAnalysis[0]?.rate)?.maxIncome || 0) - (currentIncome - getStandardDeduction(filingStatus, taxYear, taxInflationRate))))}
                 </p>
                 <p className="text-sm text-blue-600 mt-2">
                   Maximum conversion amount
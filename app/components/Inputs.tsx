@@ -1,26 +1,81 @@
 'use client';
 
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { UserInputs } from '../types';
+import { UserInputs, TaxLawScenario, IncomeStreamType, IncomeTaxCharacter } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui';
-import { NY_STATE_TAX_RATE } from '../lib/taxEngine';
-import { useEffect } from 'react';
+import { DEFAULT_TAX_INFLATION_RATE, LATEST_TAX_YEAR, TAX_LAW_SCENARIO_LABELS, FILING_STATUSES, FILING_STATUS_LABELS } from '../lib/taxEngine';
+import { STATE_TAX_TABLES, DEFAULT_STATE_CODE } from '../lib/stateTax';
+import { INCOME_STREAM_LABELS, TAX_CHARACTER_LABELS, DEFAULT_TAX_CHARACTER, projectOrdinaryIncome } from '../lib/incomeStreams';
+import { analyzeBracketOptimization } from '../lib/simulation';
+import { useEffect, useState } from 'react';
 
 // Base schema that all strategies share
 const baseSchema = {
   age1: z.number().min(18).max(100),
   age2: z.number().min(18).max(100),
-  filingStatus: z.enum(['single', 'mfj']),
+  filingStatus: z.enum(['single', 'mfj', 'mfs', 'hoh', 'qss']),
   retirementAge: z.number().min(50).max(80),
   traditionalBalance: z.number().min(0),
   rothBalance: z.number().min(0),
+  traditionalBalance2: z.number().min(0).optional(),
+  rothBalance2: z.number().min(0).optional(),
+  rothContributionBasis: z.number().min(0).optional(),
+  firstDeathYear: z.number().int().min(1).optional(),
+  deceasedSpouse: z.union([z.literal(1), z.literal(2)]).optional(),
   taxableBalance: z.union([z.number().min(0), z.string().optional(), z.undefined()]).optional(),
+  taxableCostBasis: z.union([z.number().min(0), z.string().optional(), z.undefined()]).optional(),
   annualIncome: z.number().min(0),
-  yearlyIncomes: z.array(z.number().min(0)).length(10),
-  retirementIncome: z.number().min(0),
-  conversionStrategy: z.enum(['one-time', 'annual', 'bracket-optimization']),
+  incomeStreams: z.array(z.object({
+    type: z.enum(['wages', 'pension', 'annuity', 'rental', 'one-off']),
+    owner: z.union([z.literal(1), z.literal(2)]),
+    amount: z.number().min(0),
+    startYear: z.number().int().min(1),
+    endYear: z.number().int().min(1).optional(),
+    growthRate: z.number().min(-10).max(20), // Percentage
+    taxCharacter: z.enum(['ordinary', 'retirement', 'capital-gains']),
+  }).refine(
+    stream => stream.endYear === undefined || stream.endYear >= stream.startYear,
+    { message: 'End year is before the start year', path: ['endYear'] }
+  )),
+  socialSecurityBenefit1: z.number().min(0),
+  socialSecurityClaimingAge1: z.number().min(62).max(70),
+  socialSecurityBenefit2: z.number().min(0),
+  socialSecurityClaimingAge2: z.number().min(62).max(70),
+  householdSize: z.number().int().min(1).max(10),
+  acaBenchmarkPremium: z.number().min(0).optional(),
+  annualSpending: z.number().min(0).optional(),
+  spendingInflationRate: z.number().min(0).max(10), // Percentage
+  withdrawalOrder: z.enum(['taxable-first', 'proportional', 'bracket-fill']),
+  withdrawalBracket: z.number().optional(),
+  annualQcd: z.number().min(0).optional(),
+  qlacAmount: z.number().min(0).optional(),
+  qlacPurchaseAge: z.number().int().min(50).max(85).optional(),
+  qlacIncomeStartAge: z.number().int().min(50).max(85).optional(),
+  qlacAnnualIncome: z.number().min(0).optional(),
+  heirIncome: z.number().min(0),
+  heirFilingStatus: z.enum(['single', 'mfj', 'mfs', 'hoh', 'qss']),
+  heirCount: z.number().int().min(1).max(20),
+  conversionStrategy: z.enum(['one-time', 'annual', 'bracket-optimization', 'ladder', 'optimal', 'goal-seek', 'custom']),
+  optimizationGoal: z.enum(['terminal', 'legacy']),
+  goalTarget: z.enum(['traditional-balance', 'roth-share', 'first-rmd']),
+  goalValue: z.number().min(0).optional(), // Percentage for the Roth share
+  goalAge: z.number().int().min(18).max(120),
+  goalPacing: z.enum(['level', 'bracket']),
+  customConversions: z.array(z.object({
+    year: z.number().int().min(1).max(50),
+    amount: z.number().min(0).optional(),
+    targetBracket: z.number().optional(),
+  })).refine(
+    rows => new Set(rows.map(row => row.year)).size === rows.length,
+    { message: 'Each year can appear only once' }
+  ),
+  gapYearMode: z.boolean(),
+  conversionStart: z.enum(['now', 'retirement', 'age', 'year']),
+  conversionStartValue: z.number().int().min(0).optional(),
+  conversionStop: z.enum(['never', 'age', 'year', 'rmd-start', 'ss-claim']),
+  conversionStopValue: z.number().int().min(0).optional(),
   conversionPercentage: z.number().min(0).max(100),
   expectedReturn: z.string().optional().transform(val => {
     if (val === '' || val === undefined || val === null) return undefined;
@@ -32,11 +87,38 @@ const baseSchema = {
     const num = parseFloat(val);
     return isNaN(num) ? undefined : num;
   }),
+  qualifiedDividendYield: z.number().min(0).max(10), // Percentages
+  interestYield: z.number().min(0).max(10),
+  gainRealizationRate: z.number().min(0).max(100),
   simulationYears: z.number().min(1).max(50),
-  stateTaxRate: z.number().min(0).max(15), // Now represents percentage (0-15%)
+  stateCode: z.string().refine(code => code in STATE_TAX_TABLES, 'Select a state'),
   enableStateTax: z.boolean(),
+  itemizedDeductions: z.array(z.object({
+    year: z.number().int().min(1).max(50),
+    stateAndLocalTaxes: z.number().min(0),
+    mortgageInterest: z.number().min(0),
+    charitableGifts: z.number().min(0),
+  })),
+  taxLaw: z.object({
+    scenario: z.enum(['current-law', 'tcja-sunset', 'custom']),
+    fromYear: z.number().int().min(2023).max(2100),
+    customBrackets: z.array(z.object({
+      rate: z.number().min(0).max(100), // Percentage
+      cap: z.number().min(0).nullable(),
+    })).optional(),
+    customStandardDeduction: z.number().min(0).optional(),
+  }).refine(
+    law => law.scenario !== 'custom' || (law.customBrackets?.length ?? 0) > 0,
+    { message: 'Add at least one bracket', path: ['customBrackets'] }
+  ),
+  taxInflationRate: z.number().min(0).max(10), // Percentage (0-10%)
   enableRetirementBracketAnalysis: z.boolean(),
   retirementTaxBracket: z.number().optional().or(z.literal('')),
+  irmaaTierLimit: z.number().min(0).max(5).optional(),
+  acaFplLimit: z.number().min(100).max(400).optional(),
+  conversionTaxSource: z.enum(['taxable', 'withheld', 'split']),
+  conversionWithholdingShare: z.number().min(0).max(100).optional(), // Percentage
+  shortfallFallback: z.enum(['ira-gross-up', 'cap-conversion', 'infeasible']),
 };
 
 // Create a conditional schema based on conversion strategy
@@ -79,6 +161,7 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
     formState: { errors },
     setValue,
     trigger,
+    control,
   } = useForm<UserInputs>({
     resolver: zodResolver(createInputSchema('bracket-optimization')),
     defaultValues: {
@@ -88,28 +171,103 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
       retirementAge: 65,
       traditionalBalance: 1600000, // Updated to $1.6M
       rothBalance: 0, // Updated to $0
+      traditionalBalance2: undefined,
+      rothBalance2: undefined,
+      rothContributionBasis: undefined,
+      firstDeathYear: undefined,
+      deceasedSpouse: 1,
       taxableBalance: undefined,
+      taxableCostBasis: undefined,
       annualIncome: 150000,
-      yearlyIncomes: Array(10).fill(150000), // Default 10 years at $150k
-      retirementIncome: 80000, // Default retirement income
+      incomeStreams: [
+        { type: 'wages', owner: 1, amount: 150000, startYear: 1, endYear: 20, growthRate: 0, taxCharacter: 'ordinary' },
+        { type: 'pension', owner: 1, amount: 80000, startYear: 21, endYear: undefined, growthRate: 0, taxCharacter: 'retirement' },
+      ],
+      socialSecurityBenefit1: 0,
+      socialSecurityClaimingAge1: 67,
+      socialSecurityBenefit2: 0,
+      socialSecurityClaimingAge2: 67,
+      householdSize: 2,
+      acaBenchmarkPremium: undefined,
+      annualSpending: undefined,
+      spendingInflationRate: DEFAULT_TAX_INFLATION_RATE * 100,
+      withdrawalOrder: 'taxable-first',
+      withdrawalBracket: 0.12,
+      annualQcd: undefined,
+      qlacAmount: undefined,
+      qlacPurchaseAge: undefined,
+      qlacIncomeStartAge: undefined,
+      qlacAnnualIncome: undefined,
+      heirIncome: 100000,
+      heirFilingStatus: 'mfj',
+      heirCount: 2,
       conversionStrategy: 'bracket-optimization',
+      optimizationGoal: 'terminal',
+      goalTarget: 'traditional-balance',
+      goalValue: undefined,
+      goalAge: 73,
+      goalPacing: 'level',
+      customConversions: [],
+      gapYearMode: false,
+      conversionStart: 'now',
+      conversionStartValue: undefined,
+      conversionStop: 'never',
+      conversionStopValue: undefined,
       oneTimeConversionAmount: undefined,
       annualConversionAmount: undefined,
       conversionPercentage: 10,
       targetTaxBracket: 0.22, // Default to 22%
+      irmaaTierLimit: undefined,
+      acaFplLimit: undefined,
+      conversionTaxSource: 'taxable',
+      conversionWithholdingShare: 50,
+      shortfallFallback: 'infeasible',
       expectedReturn: '',
       taxableYield: '',
+      qualifiedDividendYield: 1.5,
+      interestYield: 0.5,
+      gainRealizationRate: 10,
       simulationYears: 30,
-      stateTaxRate: NY_STATE_TAX_RATE * 100, // Convert to percentage for display
+      stateCode: DEFAULT_STATE_CODE,
       enableStateTax: true,
+      itemizedDeductions: [],
+      taxLaw: {
+        scenario: 'current-law',
+        fromYear: LATEST_TAX_YEAR + 1,
+        customBrackets: [],
+        customStandardDeduction: 0,
+      },
+      taxInflationRate: DEFAULT_TAX_INFLATION_RATE * 100, // Convert to percentage for display
       enableRetirementBracketAnalysis: false,
       retirementTaxBracket: undefined,
       ...defaultValues,
     },
   });
 
+  const { fields: itemizedFields, append: appendItemized, remove: removeItemized } = useFieldArray({
+    control,
+    name: 'itemizedDeductions',
+  });
+
+  const { fields: incomeStreamFields, append: appendIncomeStream, remove: removeIncomeStream } = useFieldArray({
+    control,
+    name: 'incomeStreams',
+  });
+
+  const { fields: customBracketFields, append: appendCustomBracket, remove: removeCustomBracket } = useFieldArray({
+    control,
+    name: 'taxLaw.customBrackets',
+  });
+
+  const { fields: customConversionFields, append: appendCustomConversion, remove: removeCustomConversion, replace: replaceCustomConversions } = useFieldArray({
+    control,
+    name: 'customConversions',
+  });
+  const [suggestionBracket, setSuggestionBracket] = useState(0.22);
+
   const watchedValues = watch();
   const conversionStrategy = watchedValues.conversionStrategy || 'bracket-optimization';
+  const isJointFiler = watchedValues.filingStatus === 'mfj' || watchedValues.filingStatus === 'qss';
 
   // Update schema when conversion strategy changes
   useEffect(() => {
@@ -117,18 +275,50 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
     if (conversionStrategy === 'one-time') {
       setValue('annualConversionAmount', undefined);
       setValue('targetTaxBracket', undefined);
+      setValue('irmaaTierLimit', undefined);
+      setValue('acaFplLimit', undefined);
     } else if (conversionStrategy === 'annual') {
       setValue('oneTimeConversionAmount', undefined);
       setValue('targetTaxBracket', undefined);
+      setValue('irmaaTierLimit', undefined);
+      setValue('acaFplLimit', undefined);
     } else if (conversionStrategy === 'bracket-optimization') {
       setValue('oneTimeConversionAmount', undefined);
       setValue('annualConversionAmount', undefined);
+    } else if (conversionStrategy === 'ladder' || conversionStrategy === 'optimal' || conversionStrategy === 'goal-seek' || conversionStrategy === 'custom') {
+      setValue('oneTimeConversionAmount', undefined);
+      setValue('annualConversionAmount', undefined);
+      setValue('targetTaxBracket', undefined);
+      setValue('irmaaTierLimit', undefined);
+      setValue('acaFplLimit', undefined);
     }
     
     // Trigger validation after clearing fields
     trigger();
   }, [conversionStrategy, setValue, trigger]);
 
+  // Today's traditional balance, which a custom schedule can't convert more than before growth
+  const currentTraditionalBalance = (watchedValues.traditionalBalance || 0) + (isJointFiler ? watchedValues.traditionalBalance2 || 0 : 0);
+  const scheduledTotal = (watchedValues.customConversions ?? []).reduce((total, row) => total + (row.amount || 0), 0);
+
+  // Seed the custom schedule with the bracket analysis' year-by-year suggestions
+  const seedCustomConversions = () => {
+    const streams = (watchedValues.incomeStreams ?? []).map(stream => ({ ...stream, growthRate: stream.growthRate / 100 }));
+    const analysis = analyzeBracketOptimization(
+      watchedValues.annualIncome || 0,
+      currentTraditionalBalance,
+      suggestionBracket,
+      watchedValues.filingStatus,
+      projectOrdinaryIncome(streams, 10),
+      new Date().getFullYear(),
+      watchedValues.taxInflationRate / 100
+    );
+    replaceCustomConversions((analysis.yearlyRecommendations ?? []).map(row => ({
+      year: row.year,
+      amount: Math.round(row.recommendedAmount),
+    })));
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -147,13 +337,28 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
     const transformedData = {
       ...data,
       taxableBalance: data.taxableBalance && Number(data.taxableBalance) > 0 ? Number(data.taxableBalance) : undefined,
+      taxableCostBasis: data.taxableCostBasis && Number(data.taxableCostBasis) > 0 ? Number(data.taxableCostBasis) : undefined,
+      qualifiedDividendYield: data.qualifiedDividendYield / 100,
+      interestYield: data.interestYield / 100,
+      gainRealizationRate: data.gainRealizationRate / 100,
       expectedReturn: typeof data.expectedReturn === 'string' && data.expectedReturn.trim() !== '' 
         ? parseFloat(data.expectedReturn) / 100 
         : undefined,
       taxableYield: typeof data.taxableYield === 'string' && data.taxableYield.trim() !== '' 
         ? parseFloat(data.taxableYield) / 100 
         : undefined,
-      stateTaxRate: data.stateTaxRate / 100, // Convert percentage to decimal
+      taxInflationRate: data.taxInflationRate / 100,
+      incomeStreams: data.incomeStreams.map(stream => ({ ...stream, growthRate: stream.growthRate / 100 })),
+      spendingInflationRate: data.spendingInflationRate !== undefined ? data.spendingInflationRate / 100 : undefined,
+      conversionWithholdingShare: data.conversionWithholdingShare !== undefined ? data.conversionWithholdingShare / 100 : undefined,
+      goalValue: data.goalValue !== undefined && data.goalTarget === 'roth-share' ? data.goalValue / 100 : data.goalValue,
+      // Custom brackets are entered as percentages, in any order; the top bracket has no cap
+      taxLaw: {
+        ...data.taxLaw,
+        customBrackets: (data.taxLaw.customBrackets ?? [])
+          .map(bracket => ({ rate: bracket.rate / 100, cap: bracket.cap }))
+          .sort((a, b) => (a.cap ?? Infinity) - (b.cap ?? Infinity)),
+      },
       retirementTaxBracket: data.retirementTaxBracket ? data.retirementTaxBracket / 100 : undefined,
     };
     onSubmit(transformedData);
@@ -210,7 +415,15 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                 <select {...register('filingStatus')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
                   <option value="mfj">Married Filing Jointly</option>
                   <option value="single">Single</option>
+                  <option value="hoh">Head of Household</option>
+                  <option value="mfs">Married Filing Separately</option>
+                  <option value="qss">Qualifying Surviving Spouse</option>
                 </select>
+                {watchedValues.filingStatus === 'qss' && (
+                  <p className="text-sm text-gray-500 mt-2">
+                    Available for the two years after a spouse&apos;s death with a dependent child
+                  </p>
+                )}
               </div>
               
               <div>
@@ -225,6 +438,35 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                 />
               </div>
             </div>
+
+            {isJointFiler && (
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Survivor Scenario (Optional)</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                  <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-2">First Death in Year</label>
+                    <input
+                      type="number"
+                      {...register('firstDeathYear', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                      className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                      placeholder="None"
+                      min="1"
+                      max="50"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-2">Spouse Who Dies First</label>
+                    <select {...register('deceasedSpouse', { valueAsNumber: true })} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                      <option value={1}>You</option>
+                      <option value={2}>Spouse</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-3">
+                  From the following year the survivor files single, inherits both sets of accounts as their own, keeps the larger Social Security benefit and loses the deceased spouse&apos;s income streams. Narrower single brackets and IRMAA tiers on the same RMDs are the widow&apos;s penalty that conversions can soften.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Account Balances */}
@@ -262,7 +504,49 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                   Current: {formatCurrency(watchedValues.rothBalance || 0)}
                 </p>
               </div>
+              
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Roth Contributions (Optional)</label>
+                <input
+                  type="number"
+                  {...register('rothContributionBasis', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                  className="w-full p-3 lg:p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-base lg:text-lg"
+                  placeholder="Defaults to the Roth balance"
+                />
+                <p className="text-sm text-gray-500 mt-2">
+                  Direct contributions come out tax- and penalty-free; the rest of the balance is earnings
+                </p>
+              </div>
+              
+              {isJointFiler && (
+                <>
+                  <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-3">Spouse Traditional IRA Balance</label>
+                    <input
+                      type="number"
+                      {...register('traditionalBalance2', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                      className="w-full p-3 lg:p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-base lg:text-lg"
+                      placeholder="0"
+                    />
+                  </div>
+                  
+                  <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-3">Spouse Roth IRA Balance</label>
+                    <input
+                      type="number"
+                      {...register('rothBalance2', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                      className="w-full p-3 lg:p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-base lg:text-lg"
+                      placeholder="0"
+                    />
+                  </div>
+                </>
+              )}
             </div>
+            {isJointFiler && (
+              <p className="text-sm text-gray-500 -mt-2">
+                Each spouse&apos;s RMDs are figured on their own balance and age; conversions come from both IRAs in proportion
+              </p>
+            )}
 
             <div>
               <label className="block text-sm font-bold text-gray-700 mb-3">Taxable Account Balance (Optional)</label>
@@ -276,6 +560,19 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                 Only needed if tracking taxable account for tax payments
               </p>
             </div>
+
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Taxable Account Cost Basis (Optional)</label>
+              <input
+                type="number"
+                {...register('taxableCostBasis')}
+                className="w-full p-3 lg:p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-base lg:text-lg"
+                placeholder="300,000"
+              />
+              <p className="text-sm text-gray-500 mt-2">
+                Defaults to the account balance (no unrealized gains)
+              </p>
+            </div>
           </div>
 
           {/* Income & Conversions */}
@@ -308,56 +605,343 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
               </div>
             </div>
             
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-bold text-gray-700 mb-3">Annual Income (Current)</label>
-                <input
-                  type="number"
-                  {...register('annualIncome', { valueAsNumber: true })}
-                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
-                  placeholder="150,000"
-                />
-                <p className="text-sm text-gray-500 mt-2">
-                  Current: {formatCurrency(watchedValues.annualIncome || 0)}
-                </p>
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Annual Income (Current)</label>
+              <input
+                type="number"
+                {...register('annualIncome', { valueAsNumber: true })}
+                className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                placeholder="150,000"
+              />
+              <p className="text-sm text-gray-500 mt-2">
+                Current: {formatCurrency(watchedValues.annualIncome || 0)}. Sets IRMAA for the first two years; income during the plan comes from the streams below.
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Social Security</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                {([1, 2] as const).map(spouse => (
+                  <div key={spouse} className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-bold text-gray-700 mb-2">
+                        {spouse === 1 ? 'Your Annual Benefit' : 'Spouse Annual Benefit'}
+                      </label>
+                      <input
+                        type="number"
+                        {...register(`socialSecurityBenefit${spouse}` as const, { valueAsNumber: true })}
+                        className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                        placeholder="36,000"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-bold text-gray-700 mb-2">Claiming Age</label>
+                      <input
+                        type="number"
+                        {...register(`socialSecurityClaimingAge${spouse}` as const, { valueAsNumber: true })}
+                        className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                        placeholder="67"
+                        min="62"
+                        max="70"
+                      />
+                    </div>
+                  </div>
+                ))}
               </div>
-              
-              <div>
-                <label className="block text-sm font-bold text-gray-700 mb-3">Retirement Income</label>
-                <input
-                  type="number"
-                  {...register('retirementIncome', { valueAsNumber: true })}
-                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
-                  placeholder="80,000"
-                />
-                <p className="text-sm text-gray-500 mt-2">
-                  Income after retirement (Social Security, pensions, etc.)
-                </p>
+              <p className="text-sm text-gray-500 mt-3">
+                Benefit at claiming age in today&apos;s dollars. Up to 85% becomes taxable as other income rises, so conversions before claiming are often cheaper.
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">ACA Marketplace Coverage</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Household Size</label>
+                  <input
+                    type="number"
+                    {...register('householdSize', { valueAsNumber: true })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="2"
+                    min="1"
+                    max="10"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Benchmark Premium (annual)</label>
+                  <input
+                    type="number"
+                    {...register('acaBenchmarkPremium', { setValueAs: (value) => (value === '' ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="18,000"
+                    min="0"
+                  />
+                </div>
               </div>
+              <p className="text-sm text-gray-500 mt-3">
+                Second-lowest-cost silver premium for the household in today&apos;s dollars. Leave blank if you won&apos;t use marketplace coverage. Retired years before 65 get the premium tax credit, and subsidy lost to conversion income counts as a conversion cost.
+              </p>
             </div>
             
             <div>
-              <label className="block text-sm font-bold text-gray-700 mb-3">Income for Next 10 Years</label>
-              <div className="space-y-4 max-h-60 overflow-y-auto p-6 bg-gray-50 rounded-3xl">
-                {Array.from({ length: 10 }, (_, i) => (
-                  <div key={i} className="flex items-center space-x-4">
-                    <div className="w-16">
-                      <label className="block text-sm font-bold text-gray-700">Year {i + 1}</label>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Retirement Spending</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Annual Spending</label>
+                  <input
+                    type="number"
+                    {...register('annualSpending', { setValueAs: (value) => (value === '' ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="120,000"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Spending Inflation (%)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    {...register('spendingInflationRate', { valueAsNumber: true })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="2.5"
+                    min="0"
+                    max="10"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Withdrawal Order</label>
+                  <select {...register('withdrawalOrder')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                    <option value="taxable-first">Taxable first, then traditional, then Roth</option>
+                    <option value="proportional">Proportional to balances</option>
+                    <option value="bracket-fill">Traditional up to a bracket, then Roth</option>
+                  </select>
+                </div>
+                {watch('withdrawalOrder') === 'bracket-fill' && (
+                  <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-2">Fill Traditional Up To</label>
+                    <select {...register('withdrawalBracket', { valueAsNumber: true })} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                      <option value={0.10}>10%</option>
+                      <option value={0.12}>12%</option>
+                      <option value={0.22}>22%</option>
+                      <option value={0.24}>24%</option>
+                      <option value={0.32}>32%</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                Yearly spending in retirement, in today&apos;s dollars. Income, Social Security and RMDs cover it first; the accounts cover the rest, and those withdrawals are taxed with the year&apos;s other income. Leave blank to model no spending.
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Charitable Distributions &amp; QLAC</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Annual QCD</label>
+                  <input
+                    type="number"
+                    {...register('annualQcd', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="10,000"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">QLAC Premium</label>
+                  <input
+                    type="number"
+                    {...register('qlacAmount', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="200,000"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">QLAC Purchase Age</label>
+                  <input
+                    type="number"
+                    {...register('qlacPurchaseAge', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="70"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">QLAC Income Start Age</label>
+                  <input
+                    type="number"
+                    {...register('qlacIncomeStartAge', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="85"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">QLAC Annual Income (quoted)</label>
+                  <input
+                    type="number"
+                    {...register('qlacAnnualIncome', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="40,000"
+                    min="0"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                QCDs (today&apos;s dollars) go from the IRA straight to charity once a spouse is past 70½; they count toward the RMD but are never income. A QLAC is bought from your IRA at the purchase age (up to the annual limit), drops out of the RMD balance, and pays its quoted income from the start age.
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Heirs</label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 p-6 bg-gray-50 rounded-3xl">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Income per Heir</label>
+                  <input
+                    type="number"
+                    {...register('heirIncome', { valueAsNumber: true })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="100,000"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Heir Filing Status</label>
+                  <select {...register('heirFilingStatus')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                    {FILING_STATUSES.map(status => (
+                      <option key={status} value={status}>{FILING_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Number of Heirs</label>
+                  <input
+                    type="number"
+                    {...register('heirCount', { valueAsNumber: true })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    min="1"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                Heirs split what is left at the end of the horizon and empty inherited traditional IRAs in level payouts over 10 years, taxed at their own federal bracket. Roth money passes tax-free and taxable accounts get a stepped-up basis.
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Income Streams</label>
+              <div className="space-y-4 p-6 bg-gray-50 rounded-3xl">
+                {incomeStreamFields.length === 0 && (
+                  <p className="text-sm text-gray-500">No income streams &mdash; only Social Security and the accounts.</p>
+                )}
+                {incomeStreamFields.map((field, i) => (
+                  <div key={field.id} className="grid grid-cols-2 sm:grid-cols-4 gap-4 items-end pb-4 border-b border-gray-200 last:border-b-0">
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Type</label>
+                      <select
+                        {...register(`incomeStreams.${i}.type` as const, {
+                          onChange: (event) => setValue(`incomeStreams.${i}.taxCharacter`, DEFAULT_TAX_CHARACTER[event.target.value as IncomeStreamType]),
+                        })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      >
+                        {(Object.keys(INCOME_STREAM_LABELS) as IncomeStreamType[]).map(type => (
+                          <option key={type} value={type}>{INCOME_STREAM_LABELS[type]}</option>
+                        ))}
+                      </select>
                     </div>
-                    <div className="flex-1">
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Owner</label>
+                      <select
+                        {...register(`incomeStreams.${i}.owner` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      >
+                        <option value={1}>You</option>
+                        <option value={2}>Spouse</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Annual Amount</label>
                       <input
                         type="number"
-                        {...register(`yearlyIncomes.${i}` as const, { valueAsNumber: true })}
-                        className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
-                        placeholder="150,000"
+                        {...register(`incomeStreams.${i}.amount` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
                         min="0"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Tax Character</label>
+                      <select
+                        {...register(`incomeStreams.${i}.taxCharacter` as const)}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      >
+                        {(Object.keys(TAX_CHARACTER_LABELS) as IncomeTaxCharacter[]).map(character => (
+                          <option key={character} value={character}>{TAX_CHARACTER_LABELS[character]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Start Year</label>
+                      <input
+                        type="number"
+                        {...register(`incomeStreams.${i}.startYear` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        min="1"
+                        max="50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">End Year</label>
+                      <input
+                        type="number"
+                        {...register(`incomeStreams.${i}.endYear` as const, { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        placeholder="Ongoing"
+                        min="1"
+                        max="50"
+                        disabled={watch(`incomeStreams.${i}.type`) === 'one-off'}
+                      />
+                      {errors.incomeStreams?.[i]?.endYear && (
+                        <p className="text-red-500 text-xs mt-1">{errors.incomeStreams[i]?.endYear?.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Growth / COLA (%)</label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        {...register(`incomeStreams.${i}.growthRate` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeIncomeStream(i)}
+                      className="p-3 text-sm font-bold text-red-600 border border-red-200 rounded-2xl hover:bg-red-50 transition-colors"
+                    >
+                      Remove
+                    </button>
                   </div>
                 ))}
+                <button
+                  type="button"
+                  onClick={() => appendIncomeStream({
+                    type: 'wages',
+                    owner: 1,
+                    amount: 0,
+                    startYear: 1,
+                    endYear: undefined,
+                    growthRate: 0,
+                    taxCharacter: DEFAULT_TAX_CHARACTER.wages,
+                  })}
+                  className="px-4 py-2 text-sm font-bold text-blue-600 border border-blue-200 rounded-2xl hover:bg-blue-50 transition-colors"
+                >
+                  + Add Income
+                </button>
               </div>
               <p className="text-sm text-gray-500 mt-3">
-                Specify your expected income for each of the next 10 years. This helps optimize conversion timing.
+                Years are simulation years (year 1 is this year). Amounts are for the start year and grow by the growth rate after that. Retirement income can qualify for state exclusions; one-off sales taxed as capital gains stack above ordinary income, so they leave conversion room in the lower brackets.
               </p>
             </div>
             
@@ -367,14 +951,178 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                 <option value="one-time">One-time conversion (specific dollar amount)</option>
                 <option value="annual">Annual conversions (specific dollar amount)</option>
                 <option value="bracket-optimization">Bracket optimization (target tax rate)</option>
+                <option value="ladder">Conversion ladder (early retirement)</option>
+                <option value="optimal">Optimal schedule (solver)</option>
+                <option value="goal-seek">Goal seek (balance, Roth share or RMD by an age)</option>
+                <option value="custom">Custom schedule (amount or bracket by year)</option>
               </select>
               <p className="text-sm text-gray-500 mt-2">
                 {conversionStrategy === 'one-time' && 'Convert a specific dollar amount once'}
                 {conversionStrategy === 'annual' && 'Convert a specific dollar amount each year'}
                 {conversionStrategy === 'bracket-optimization' && 'Convert to fill a target tax bracket rate'}
+                {conversionStrategy === 'ladder' && 'Convert each year what spending will need five years later, until 59½; seasoned conversions are spent first'}
+                {conversionStrategy === 'optimal' && 'Search year-by-year amounts for the schedule that leaves the most after-tax wealth'}
+                {conversionStrategy === 'goal-seek' && 'Find the smallest annual conversions that reach a target by a chosen age'}
+                {conversionStrategy === 'custom' && 'Set each year\'s conversion yourself, as a dollar amount or a bracket to fill'}
               </p>
             </div>
 
+            {conversionStrategy === 'ladder' && !watchedValues.annualSpending && (
+              <p className="text-red-500 text-sm -mt-2">Set a retirement spending target to size the ladder</p>
+            )}
+
+            {conversionStrategy === 'optimal' && (
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Maximize</label>
+                <select {...register('optimizationGoal')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                  <option value="terminal">After-tax wealth at the end of the horizon</option>
+                  <option value="legacy">Legacy value to heirs</option>
+                </select>
+                <p className="text-sm text-gray-500 mt-2">
+                  Terminal wealth counts the traditional IRA net of the tax on level withdrawals over your remaining life expectancy after the horizon; legacy value nets the heirs&apos; tax under the 10-year rule
+                </p>
+              </div>
+            )}
+
+            {conversionStrategy === 'goal-seek' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Target</label>
+                  <select {...register('goalTarget')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                    <option value="traditional-balance">Traditional balance at most</option>
+                    <option value="roth-share">Roth share at least (%)</option>
+                    <option value="first-rmd">First RMD at most</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">{watchedValues.goalTarget === 'roth-share' ? 'Roth Share (%)' : 'Amount'}</label>
+                  <input
+                    type="number"
+                    {...register('goalValue', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder={watchedValues.goalTarget === 'roth-share' ? '60' : '500,000'}
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">By Your Age</label>
+                  <input
+                    type="number"
+                    {...register('goalAge', { valueAsNumber: true })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    min="18"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Pacing</label>
+                  <select {...register('goalPacing')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                    <option value="level">Level annual amount</option>
+                    <option value="bracket">Smoothed to a steady income level</option>
+                  </select>
+                </div>
+                <p className="text-sm text-gray-500 sm:col-span-2">
+                  Measured on January 1 of the goal age, after the year&apos;s growth. Conversions stop once the goal age is reached; the conversion window still applies.
+                </p>
+              </div>
+            )}
+
+            {conversionStrategy === 'custom' && (
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Conversion Schedule</label>
+                <div className="space-y-4 p-6 bg-gray-50 rounded-3xl">
+                  {customConversionFields.length === 0 && (
+                    <p className="text-sm text-gray-500">No scheduled years &mdash; nothing is converted.</p>
+                  )}
+                  {customConversionFields.map((field, i) => (
+                    <div key={field.id} className="grid grid-cols-2 sm:grid-cols-4 gap-4 items-end">
+                      <div>
+                        <label className="block text-xs font-bold text-gray-700 mb-2">Year</label>
+                        <input
+                          type="number"
+                          {...register(`customConversions.${i}.year` as const, { valueAsNumber: true })}
+                          className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                          min="1"
+                          max="50"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-bold text-gray-700 mb-2">Amount</label>
+                        <input
+                          type="number"
+                          {...register(`customConversions.${i}.amount` as const, { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                          className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                          min="0"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-bold text-gray-700 mb-2">Or Fill Bracket</label>
+                        <select
+                          {...register(`customConversions.${i}.targetBracket` as const, { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                          className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        >
+                          <option value="">&mdash;</option>
+                          <option value={0.10}>10%</option>
+                          <option value={0.12}>12%</option>
+                          <option value={0.22}>22%</option>
+                          <option value={0.24}>24%</option>
+                          <option value={0.32}>32%</option>
+                          <option value={0.35}>35%</option>
+                          <option value={0.37}>37%</option>
+                        </select>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeCustomConversion(i)}
+                        className="p-3 text-sm font-bold text-red-600 border border-red-200 rounded-2xl hover:bg-red-50 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap items-center gap-4">
+                    <button
+                      type="button"
+                      onClick={() => appendCustomConversion({ year: customConversionFields.length + 1, amount: undefined, targetBracket: undefined })}
+                      className="px-4 py-2 text-sm font-bold text-blue-600 border border-blue-200 rounded-2xl hover:bg-blue-50 transition-colors"
+                    >
+                      + Add Year
+                    </button>
+                    <select
+                      value={suggestionBracket}
+                      onChange={(event) => setSuggestionBracket(Number(event.target.value))}
+                      className="p-2 text-sm border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    >
+                      <option value={0.10}>10%</option>
+                      <option value={0.12}>12%</option>
+                      <option value={0.22}>22%</option>
+                      <option value={0.24}>24%</option>
+                      <option value={0.32}>32%</option>
+                      <option value={0.35}>35%</option>
+                      <option value={0.37}>37%</option>
+                    </select>
+                    <button
+                      type="button"
+                      onClick={seedCustomConversions}
+                      className="px-4 py-2 text-sm font-bold text-blue-600 border border-blue-200 rounded-2xl hover:bg-blue-50 transition-colors"
+                    >
+                      Start from Bracket Suggestions
+                    </button>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  Scheduled amounts total {formatCurrency(scheduledTotal)}. An amount wins over a bracket; a bracket row fills that year&apos;s actual income (after the standard deduction) up to the bracket. Suggestions replace the table with the bracket analysis for the first ten years, sized from your income streams.
+                </p>
+                {errors.customConversions?.message && (
+                  <p className="text-red-500 text-sm mt-1">{errors.customConversions.message}</p>
+                )}
+                {scheduledTotal > currentTraditionalBalance && (
+                  <p className="text-red-500 text-sm mt-1">
+                    The schedule converts more than today&apos;s {formatCurrency(currentTraditionalBalance)} traditional balance; late years will be cut to what is left
+                  </p>
+                )}
+              </div>
+            )}
+
             {conversionStrategy === 'one-time' && (
               <div>
                 <label className="block text-sm font-bold text-gray-700 mb-3">One-time Conversion Amount</label>
@@ -431,8 +1179,136 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                 {errors.targetTaxBracket && (
                   <p className="text-red-500 text-sm mt-1">{errors.targetTaxBracket.message}</p>
                 )}
+                
+                <label className="block text-sm font-bold text-gray-700 mb-3 mt-6">Medicare IRMAA Limit</label>
+                <select
+                  {...register('irmaaTierLimit', { setValueAs: (value) => (value === '' ? undefined : Number(value)) })}
+                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                >
+                  <option value="">No limit</option>
+                  <option value={0}>Stay at the standard premium</option>
+                  <option value={1}>Stay at or below IRMAA tier 1</option>
+                  <option value={2}>Stay at or below IRMAA tier 2</option>
+                  <option value={3}>Stay at or below IRMAA tier 3</option>
+                  <option value={4}>Stay at or below IRMAA tier 4</option>
+                </select>
+                <p className="text-sm text-gray-500 mt-2">
+                  From age 63, caps conversions so MAGI stays under the chosen tier two years later
+                </p>
+                
+                <label className="block text-sm font-bold text-gray-700 mb-3 mt-6">ACA Income Limit</label>
+                <select
+                  {...register('acaFplLimit', { setValueAs: (value) => (value === '' ? undefined : Number(value)) })}
+                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                >
+                  <option value="">No limit</option>
+                  <option value={138}>138% of poverty line</option>
+                  <option value={150}>150% of poverty line</option>
+                  <option value={200}>200% of poverty line</option>
+                  <option value={250}>250% of poverty line</option>
+                  <option value={300}>300% of poverty line</option>
+                  <option value={400}>400% of poverty line</option>
+                </select>
+                <p className="text-sm text-gray-500 mt-2">
+                  In pre-Medicare marketplace years, caps conversions so household income stays at or below this level
+                </p>
+                
+                <div className="flex items-center space-x-4 mt-6">
+                  <input
+                    type="checkbox"
+                    {...register('gapYearMode')}
+                    className="w-6 h-6 text-blue-600 bg-gray-100 border-gray-300 rounded-lg focus:ring-blue-500 focus:ring-2"
+                  />
+                  <label className="text-sm font-bold text-gray-700">Gap-Year Mode</label>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  Fill the bracket on top of each year&apos;s actual income &mdash; pensions, RMDs, spending withdrawals, investment income and taxable Social Security &mdash; instead of the income streams alone. Use the conversion window to choose which years convert.
+                </p>
               </div>
             )}
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Conversion Window</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 p-6 bg-gray-50 rounded-3xl">
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Start</label>
+                  <select {...register('conversionStart')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                    <option value="now">Now</option>
+                    <option value="retirement">At retirement</option>
+                    <option value="age">At age</option>
+                    <option value="year">In simulation year</option>
+                  </select>
+                  {(watchedValues.conversionStart === 'age' || watchedValues.conversionStart === 'year') && (
+                    <input
+                      type="number"
+                      {...register('conversionStartValue', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                      className="w-full p-4 mt-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                      placeholder={watchedValues.conversionStart === 'age' ? '60' : '1'}
+                      min="0"
+                    />
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">Stop</label>
+                  <select {...register('conversionStop')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                    <option value="never">Never</option>
+                    <option value="age">At age</option>
+                    <option value="year">In simulation year</option>
+                    <option value="rmd-start">When RMDs start</option>
+                    <option value="ss-claim">When Social Security is claimed</option>
+                  </select>
+                  {(watchedValues.conversionStop === 'age' || watchedValues.conversionStop === 'year') && (
+                    <input
+                      type="number"
+                      {...register('conversionStopValue', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                      className="w-full p-4 mt-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                      placeholder={watchedValues.conversionStop === 'age' ? '73' : '10'}
+                      min="0"
+                    />
+                  )}
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                Applies to every strategy. Ages are yours; the start is inclusive and the stop is not, so stopping at 73 makes 72 the last conversion year. RMD and Social Security stops end conversions when either spouse begins.
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Pay Conversion Tax From</label>
+              <select {...register('conversionTaxSource')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                <option value="taxable">Taxable account</option>
+                <option value="withheld">Withheld from the conversion</option>
+                <option value="split">Split between both</option>
+              </select>
+              {watch('conversionTaxSource') === 'split' && (
+                <div className="mt-4">
+                  <label className="block text-sm font-bold text-gray-700 mb-3">Share Withheld (%)</label>
+                  <input
+                    type="number"
+                    {...register('conversionWithholdingShare', { setValueAs: (value) => (value === '' || value === undefined ? undefined : Number(value)) })}
+                    className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                    placeholder="50"
+                    min="0"
+                    max="100"
+                  />
+                </div>
+              )}
+              <p className="text-sm text-gray-500 mt-2">
+                Withholding is a distribution: it never reaches the Roth, and before age 59½ it adds a 10% penalty
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">If Taxes Exceed the Taxable Account</label>
+              <select {...register('shortfallFallback')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                <option value="infeasible">Flag the plan as infeasible</option>
+                <option value="cap-conversion">Reduce the conversion</option>
+                <option value="ira-gross-up">Withdraw from the IRA (grossed up for its tax)</option>
+              </select>
+              <p className="text-sm text-gray-500 mt-2">
+                Applies when a taxable balance is entered; shortfall years are listed with the results
+              </p>
+            </div>
           </div>
 
           {/* Investment Assumptions */}
@@ -492,6 +1368,56 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
                 </p>
               </div>
             </div>
+            
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Qualified Dividends (%)</label>
+                <input
+                  type="number"
+                  {...register('qualifiedDividendYield', { valueAsNumber: true })}
+                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                  placeholder="1.5"
+                  step="0.1"
+                  min="0"
+                  max="10"
+                />
+                <p className="text-sm text-gray-500 mt-2">
+                  Part of the taxable yield paid as qualified dividends
+                </p>
+              </div>
+              
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Interest (%)</label>
+                <input
+                  type="number"
+                  {...register('interestYield', { valueAsNumber: true })}
+                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                  placeholder="0.5"
+                  step="0.1"
+                  min="0"
+                  max="10"
+                />
+                <p className="text-sm text-gray-500 mt-2">
+                  Part of the taxable yield taxed as ordinary income
+                </p>
+              </div>
+              
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">Gains Realized (%)</label>
+                <input
+                  type="number"
+                  {...register('gainRealizationRate', { valueAsNumber: true })}
+                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                  placeholder="10"
+                  step="1"
+                  min="0"
+                  max="100"
+                />
+                <p className="text-sm text-gray-500 mt-2">
+                  Share of unrealized gains sold each year
+                </p>
+              </div>
+            </div>
           </div>
 
           {/* Tax Settings */}
@@ -505,23 +1431,20 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
             
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
               <div>
-                <label className="block text-sm font-bold text-gray-700 mb-3">State Tax Rate (%)</label>
-                <input
-                  type="number"
-                  {...register('stateTaxRate', { 
-                    valueAsNumber: true,
-                    setValueAs: (value) => parseFloat(value) / 100
-                  })}
-                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
-                  placeholder="6.85"
-                  step="0.01"
-                  min="0"
-                  max="15"
-                  defaultValue={(NY_STATE_TAX_RATE * 100).toFixed(2)}
-                />
+                <label className="block text-sm font-bold text-gray-700 mb-3">State of Residence</label>
+                <select {...register('stateCode')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                  {Object.entries(STATE_TAX_TABLES)
+                    .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+                    .map(([code, table]) => (
+                      <option key={code} value={code}>{table.name}</option>
+                    ))}
+                </select>
                 <p className="text-sm text-gray-500 mt-2">
-                  NY State: 6.85%
+                  Uses the state&apos;s brackets, standard deduction and retirement income exclusions
                 </p>
+                {errors.stateCode && (
+                  <p className="text-red-500 text-sm mt-1">{errors.stateCode.message}</p>
+                )}
               </div>
               <div className="flex items-center space-x-4">
                 <input
@@ -533,6 +1456,174 @@ export function Inputs({ onSubmit, defaultValues }: InputsProps) {
               </div>
             </div>
             
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Bracket Inflation (%)</label>
+              <input
+                type="number"
+                {...register('taxInflationRate', { valueAsNumber: true })}
+                className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                placeholder="2.5"
+                step="0.1"
+                min="0"
+                max="10"
+              />
+              <p className="text-sm text-gray-500 mt-2">
+                Published federal brackets are used through {LATEST_TAX_YEAR}; later years are indexed at this rate
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Tax Law Scenario</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <select {...register('taxLaw.scenario')} className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg">
+                  {(Object.keys(TAX_LAW_SCENARIO_LABELS) as TaxLawScenario[]).map(scenario => (
+                    <option key={scenario} value={scenario}>{TAX_LAW_SCENARIO_LABELS[scenario]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  {...register('taxLaw.fromYear', { valueAsNumber: true })}
+                  className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+                  placeholder={String(LATEST_TAX_YEAR + 1)}
+                  min="2023"
+                />
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                Tables switch in the tax year shown on the right. Results compare every scenario either way.
+              </p>
+              
+              {watch('taxLaw.scenario') === 'custom' && (
+                <div className="space-y-4 mt-4 p-6 bg-gray-50 rounded-3xl">
+                  {customBracketFields.map((field, i) => (
+                    <div key={field.id} className="grid grid-cols-3 gap-4 items-end">
+                      <div>
+                        <label className="block text-xs font-bold text-gray-700 mb-2">Rate (%)</label>
+                        <input
+                          type="number"
+                          {...register(`taxLaw.customBrackets.${i}.rate` as const, { valueAsNumber: true })}
+                          className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                          step="0.1"
+                          min="0"
+                          max="100"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-bold text-gray-700 mb-2">Up to Taxable Income</label>
+                        <input
+                          type="number"
+                          {...register(`taxLaw.customBrackets.${i}.cap` as const, { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                          className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                          placeholder="No limit"
+                          min="0"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeCustomBracket(i)}
+                        className="p-3 text-sm font-bold text-red-600 border border-red-200 rounded-2xl hover:bg-red-50 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => appendCustomBracket({ rate: 0, cap: null })}
+                    className="px-4 py-2 text-sm font-bold text-blue-600 border border-blue-200 rounded-2xl hover:bg-blue-50 transition-colors"
+                  >
+                    + Add Bracket
+                  </button>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-700 mb-2">Standard Deduction</label>
+                    <input
+                      type="number"
+                      {...register('taxLaw.customStandardDeduction', { valueAsNumber: true })}
+                      className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      min="0"
+                    />
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    Amounts are in the starting year&apos;s dollars for your filing status and are indexed after that. Leave the top bracket&apos;s limit blank.
+                  </p>
+                  {errors.taxLaw?.customBrackets && (
+                    <p className="text-red-500 text-sm mt-1">{errors.taxLaw.customBrackets.message}</p>
+                  )}
+                </div>
+              )}
+            </div>
+            
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-3">Itemized Deductions</label>
+              <div className="space-y-4 p-6 bg-gray-50 rounded-3xl">
+                {itemizedFields.length === 0 && (
+                  <p className="text-sm text-gray-500">No itemized years &mdash; the standard deduction is used every year.</p>
+                )}
+                {itemizedFields.map((field, i) => (
+                  <div key={field.id} className="grid grid-cols-2 sm:grid-cols-5 gap-4 items-end">
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Year</label>
+                      <input
+                        type="number"
+                        {...register(`itemizedDeductions.${i}.year` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        min="1"
+                        max="50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">State &amp; Local Taxes</label>
+                      <input
+                        type="number"
+                        {...register(`itemizedDeductions.${i}.stateAndLocalTaxes` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Mortgage Interest</label>
+                      <input
+                        type="number"
+                        {...register(`itemizedDeductions.${i}.mortgageInterest` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-700 mb-2">Charitable Gifts</label>
+                      <input
+                        type="number"
+                        {...register(`itemizedDeductions.${i}.charitableGifts` as const, { valueAsNumber: true })}
+                        className="w-full p-3 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        min="0"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeItemized(i)}
+                      className="p-3 text-sm font-bold text-red-600 border border-red-200 rounded-2xl hover:bg-red-50 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => appendItemized({
+                    year: itemizedFields.length + 1,
+                    stateAndLocalTaxes: 0,
+                    mortgageInterest: 0,
+                    charitableGifts: 0,
+                  })}
+                  className="px-4 py-2 text-sm font-bold text-blue-600 border border-blue-200 rounded-2xl hover:bg-blue-50 transition-colors"
+                >
+                  + Add Year
+                </button>
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                Each year takes the larger of itemized deductions (SALT capped) or the standard deduction, which already includes the extra amount for each spouse 65 or older. Bunching several years of charitable gifts into a conversion year lets the gifts offset conversion income.
+              </p>
+            </div>
+            
             {/* Tax Rate Analysis */}
             <div className="space-y-4">
               <div className="flex items-center space-x-4">
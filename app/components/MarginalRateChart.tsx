@@ -0,0 +1,126 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { analyzeMarginalRates } from '../lib/simulation';
+import { SimulationResult, UserInputs } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui';
+
+interface MarginalRateChartProps {
+  results: SimulationResult[];
+  inputs: UserInputs;
+}
+
+// Spikes from IRMAA and ACA cliffs can run far above 100%; the axis is clipped there
+const MAX_DISPLAY_RATE = 1;
+const CURVE_STEP = 1000;
+const CURVE_MAX_CONVERSION = 300000;
+
+export function MarginalRateChart({ results, inputs }: MarginalRateChartProps) {
+  const [yearIndex, setYearIndex] = useState(0);
+  const result = results[Math.min(yearIndex, results.length - 1)];
+
+  const curve = useMemo(() => analyzeMarginalRates(inputs, result, CURVE_MAX_CONVERSION, CURVE_STEP), [inputs, result]);
+
+  // Consecutive steps at the same rate (to the nearest half point) form one zone
+  const zones = useMemo(() => {
+    const grouped: Array<{ from: number; to: number; rate: number }> = [];
+    for (const point of curve) {
+      const rate = Math.round(point.marginalRate * 200) / 200;
+      const last = grouped[grouped.length - 1];
+      if (last && last.rate === rate) {
+        last.to = point.conversionAmount + CURVE_STEP;
+      } else {
+        grouped.push({ from: point.conversionAmount, to: point.conversionAmount + CURVE_STEP, rate });
+      }
+    }
+    return grouped;
+  }, [curve]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatPercentage = (value: number) => {
+    return `${(value * 100).toFixed(1)}%`;
+  };
+
+  return (
+    <Card className="shadow-xl border-0 rounded-3xl">
+      <CardHeader className="bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-t-3xl">
+        <CardTitle className="text-2xl font-bold flex items-center">
+          <span className="mr-3">📈</span>
+          All-In Marginal Rate
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-8">
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-3">Year</label>
+            <select
+              value={yearIndex}
+              onChange={(event) => setYearIndex(Number(event.target.value))}
+              className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+            >
+              {results.map((r, index) => (
+                <option key={r.year} value={index}>
+                  Year {r.year} ({r.taxYear}) &mdash; age {r.age1}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={curve} margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="conversionAmount"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickFormatter={(value: number) => `$${Math.round(value / 1000)}k`}
+                />
+                <YAxis
+                  domain={[0, MAX_DISPLAY_RATE]}
+                  allowDataOverflow
+                  tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                />
+                <Tooltip
+                  formatter={(value: number) => [formatPercentage(value), 'Marginal rate']}
+                  labelFormatter={(label: number) => `Converting ${formatCurrency(label)}`}
+                />
+                {result.conversionAmount > 0 && (
+                  <ReferenceLine x={result.conversionAmount} stroke="#16a34a" strokeDasharray="4 4" label="Planned" />
+                )}
+                <Line type="stepAfter" dataKey="marginalRate" stroke="#7c3aed" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-gray-50 rounded-3xl p-6">
+            <h4 className="font-bold text-gray-800 mb-4">Rate Zones</h4>
+            <div className="space-y-2 text-gray-700">
+              {zones.slice(0, 10).map(zone => (
+                <div key={zone.from} className="flex justify-between">
+                  <span>{formatCurrency(zone.from)} &ndash; {formatCurrency(zone.to)}</span>
+                  <span className="font-bold">{formatPercentage(zone.rate)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Cost of converting the next $1,000 on top of the year&apos;s other income: federal and state tax,
+            extra taxable Social Security, capital gains pushed out of the 0% bracket, NIIT, phased-out
+            deductions, the IRMAA surcharge two years later and any ACA credit lost.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
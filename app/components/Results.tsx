@@ -1,16 +1,33 @@
 'use client';
 
-import { SimulationResult } from '../types';
+import { useMemo } from 'react';
+import { SimulationRun, FilingStatus, WithdrawalOrder, ConversionStrategy, CustomConversionYear, ConversionWindowStart, ConversionWindowStop } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui';
-import { findBreakEvenYear, calculateTotalTaxSavings, analyzeBracketOptimization } from '../lib/simulation';
-import { calcMarginalTaxRate, getBrackets } from '../lib/taxEngine';
+import { runSimulation, CONVERSION_STRATEGY_LABELS, findBreakEvenYear, calculateTotalTaxSavings, analyzeBracketOptimization, compareTaxLawScenarios } from '../lib/simulation';
+import { calcMarginalTaxRate, getBrackets, getStandardDeduction, FILING_STATUS_LABELS, TAX_LAW_SCENARIO_LABELS } from '../lib/taxEngine';
+import { getStateTaxTable } from '../lib/stateTax';
+import { WITHDRAWAL_ORDER_LABELS } from '../lib/withdrawals';
+import { projectOrdinaryIncome } from '../lib/incomeStreams';
 
 interface ResultsProps {
-  results: SimulationResult[];
+  run: SimulationRun;
   inputs: any;
 }
 
-export function Results({ results, inputs }: ResultsProps) {
+export function Results({ run, inputs }: ResultsProps) {
+  const { results, schedule, optimalPlan, goalPlan } = run;
+
+  // Same plan under each tax-law scenario; rerun only when the inputs change
+  const scenarioOutcomes = useMemo(() => compareTaxLawScenarios(inputs, schedule), [inputs, schedule]);
+
+  // When tax is withheld, the same conversions paying tax from the taxable account show what
+  // withholding costs the Roth
+  const taxablePaidResults = useMemo(() => (
+    inputs.conversionTaxSource && inputs.conversionTaxSource !== 'taxable'
+      ? runSimulation({ ...inputs, conversionTaxSource: 'taxable' }, results.map(result => result.conversionAmount))
+      : null
+  ), [inputs, results]);
+
   if (!results || results.length === 0) {
     return null;
   }
@@ -18,12 +35,24 @@ export function Results({ results, inputs }: ResultsProps) {
   const breakEvenYear = findBreakEvenYear(results);
   const totalTaxSavings = calculateTotalTaxSavings(results);
   const lastResult = results[results.length - 1];
+  const isJointFiler = inputs.filingStatus === 'mfj' || inputs.filingStatus === 'qss';
 
   // Analyze bracket optimization if that strategy is selected
   const bracketAnalysis = inputs.conversionStrategy === 'bracket-optimization' 
-    ? analyzeBracketOptimization(inputs.annualIncome, inputs.traditionalBalance, inputs.targetTaxBracket, inputs.filingStatus, inputs.yearlyIncomes)
+    ? analyzeBracketOptimization(inputs.annualIncome, inputs.traditionalBalance + (isJointFiler ? inputs.traditionalBalance2 || 0 : 0), inputs.targetTaxBracket, inputs.filingStatus, projectOrdinaryIncome(inputs.incomeStreams ?? [], 10), results[0].taxYear, inputs.taxInflationRate)
     : null;
 
+  // First simulated year's tables drive the current-year figures
+  const firstTaxYear = results[0].taxYear;
+  const standardDeduction = getStandardDeduction(inputs.filingStatus, firstTaxYear, inputs.taxInflationRate);
+  const currentTaxRate = calcMarginalTaxRate(
+    inputs.annualIncome,
+    getBrackets(inputs.filingStatus, firstTaxYear, inputs.taxInflationRate),
+    inputs.filingStatus,
+    firstTaxYear,
+    inputs.taxInflationRate
+  );
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -37,12 +66,50 @@ export function Results({ results, inputs }: ResultsProps) {
     return `${value.toFixed(1)}%`;
   };
 
+  const windowStart = {
+    now: 'now',
+    retirement: 'retirement',
+    age: `age ${inputs.conversionStartValue}`,
+    year: `year ${inputs.conversionStartValue}`,
+  }[(inputs.conversionStart ?? 'now') as ConversionWindowStart];
+  const windowStop = {
+    never: 'the end',
+    age: `age ${inputs.conversionStopValue}`,
+    year: `year ${inputs.conversionStopValue}`,
+    'rmd-start': 'RMDs start',
+    'ss-claim': 'Social Security is claimed',
+  }[(inputs.conversionStop ?? 'never') as ConversionWindowStop];
+
+  const goalTargetLabel = inputs.goalTarget === 'roth-share'
+    ? `${formatPercentage((inputs.goalValue || 0) * 100)} Roth`
+    : `${inputs.goalTarget === 'first-rmd' ? 'First RMD' : 'Traditional balance'} of ${formatCurrency(inputs.goalValue || 0)} or less`;
+
   // Get the conversion amount for display
   const conversionAmount = results[0]?.conversionAmount || 0;
 
+  const yearsWithWarnings = results.filter(r => r.warnings.length > 0);
+  const isInfeasible = results.some(r => r.shortfall > 0);
+
   return (
     <div className="space-y-8">
 
+      {/* Funding Warnings */}
+      {yearsWithWarnings.length > 0 && (
+        <div className={`rounded-3xl p-6 border-2 ${isInfeasible ? 'bg-red-50 border-red-300' : 'bg-yellow-50 border-yellow-300'}`}>
+          <h4 className={`font-bold mb-4 flex items-center text-lg ${isInfeasible ? 'text-red-800' : 'text-yellow-800'}`}>
+            <span className="mr-3">⚠️</span>
+            {isInfeasible ? 'Plan Infeasible: Taxes Exceed the Taxable Account' : 'Taxable Account Shortfalls'}
+          </h4>
+          <ul className={`space-y-2 max-h-64 overflow-y-auto ${isInfeasible ? 'text-red-700' : 'text-yellow-800'}`}>
+            {yearsWithWarnings.map(r => (
+              <li key={r.year}>
+                <strong>Year {r.year} ({r.taxYear}):</strong> {r.warnings.join('. ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Combined Tax & Conversion Analysis */}
       <Card className="shadow-xl border-0 rounded-3xl">
         <CardHeader className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-t-3xl">
@@ -62,9 +129,28 @@ export function Results({ results, inputs }: ResultsProps) {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-blue-700">
                 <div>
                   <p className="mb-2"><strong>Current Income:</strong> {formatCurrency(inputs.annualIncome)}</p>
-                  <p className="mb-2"><strong>Standard Deduction:</strong> {formatCurrency(inputs.filingStatus === 'mfj' ? 29200 : 14600)}</p>
-                  <p className="mb-2"><strong>Taxable Income:</strong> {formatCurrency(Math.max(0, inputs.annualIncome - (inputs.filingStatus === 'mfj' ? 29200 : 14600)))}</p>
-                  <p className="mb-2"><strong>Current Tax Rate:</strong> {formatPercentage(calcMarginalTaxRate(inputs.annualIncome, getBrackets(inputs.filingStatus), inputs.filingStatus) * 100)}</p>
+                  <p className="mb-2"><strong>Standard Deduction:</strong> {formatCurrency(standardDeduction)}</p>
+                  <p className="mb-2"><strong>Taxable Income:</strong> {formatCurrency(Math.max(0, inputs.annualIncome - standardDeduction))}</p>
+                  {optimalPlan && (
+                    <>
+                      <p className="mb-2"><strong>Maximizing:</strong> {optimalPlan.goal === 'legacy' ? 'Legacy value to heirs' : 'After-tax terminal wealth'} ({formatCurrency(optimalPlan.value)})</p>
+                      <p className="mb-2"><strong>Best Fixed Strategy:</strong> {optimalPlan.bestHeuristic} ({formatCurrency(optimalPlan.heuristicValue)})</p>
+                      {optimalPlan.gain >= 0 ? (
+                        <p className="mb-2"><strong>Gain from Solver:</strong> {formatCurrency(optimalPlan.gain)}</p>
+                      ) : (
+                        <p className="mb-2"><strong>Solver Shortfall:</strong> {formatCurrency(-optimalPlan.gain)} behind the fixed strategy, which is used instead</p>
+                      )}
+                    </>
+                  )}
+                  {goalPlan && (
+                    <>
+                      <p className="mb-2"><strong>Goal:</strong> {goalTargetLabel} by age {inputs.goalAge}</p>
+                      <p className="mb-2"><strong>{inputs.goalPacing === 'bracket' ? 'Income Filled To' : 'Annual Conversion'}:</strong> {formatCurrency(goalPlan.level)}{inputs.goalPacing === 'bracket' && " (today's dollars)"}</p>
+                      <p className="mb-2"><strong>Projected at Goal Age:</strong> {inputs.goalTarget === 'roth-share' ? `${formatPercentage(goalPlan.projected * 100)} Roth` : formatCurrency(goalPlan.projected)}{!goalPlan.achieved && ' (not reachable by converting everything)'}</p>
+                      <p className="mb-2"><strong>Tax Cost of the Goal:</strong> {formatCurrency(goalPlan.taxCost)}</p>
+                    </>
+                  )}
+                  <p className="mb-2"><strong>Current Tax Rate:</strong> {formatPercentage(currentTaxRate * 100)}</p>
                 </div>
                 <div>
                   <p className="mb-2"><strong>Conversion Amount:</strong> {formatCurrency(results[0]?.conversionAmount || 0)}</p>
@@ -82,30 +168,75 @@ export function Results({ results, inputs }: ResultsProps) {
               </h4>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-purple-700">
                 <div>
-                  <p className="mb-2"><strong>Strategy:</strong> {inputs.conversionStrategy === 'bracket-optimization' ? 'Bracket Optimization' : inputs.conversionStrategy === 'one-time' ? 'One-time Conversion' : 'Annual Conversion'}</p>
+                  <p className="mb-2"><strong>Strategy:</strong> {CONVERSION_STRATEGY_LABELS[inputs.conversionStrategy as ConversionStrategy]}</p>
                   {inputs.conversionStrategy === 'bracket-optimization' && (
                     <p className="mb-2"><strong>Target Bracket:</strong> {formatPercentage((inputs.targetTaxBracket || 0) * 100)}</p>
                   )}
-                  <p className="mb-2"><strong>Current Tax Rate:</strong> {formatPercentage(calcMarginalTaxRate(inputs.annualIncome, getBrackets(inputs.filingStatus), inputs.filingStatus) * 100)}</p>
+                  {inputs.conversionStrategy === 'bracket-optimization' && inputs.irmaaTierLimit !== undefined && (
+                    <p className="mb-2"><strong>IRMAA Limit:</strong> {inputs.irmaaTierLimit === 0 ? 'Standard premium' : `Tier ${inputs.irmaaTierLimit}`}</p>
+                  )}
+                  {inputs.conversionStrategy === 'custom' && (
+                    <p className="mb-2"><strong>Scheduled Years:</strong> {(inputs.customConversions ?? []).length} ({formatCurrency((inputs.customConversions ?? []).reduce((total: number, row: CustomConversionYear) => total + (row.amount || 0), 0))} in fixed amounts)</p>
+                  )}
+                  {inputs.conversionStrategy === 'bracket-optimization' && inputs.gapYearMode && (
+                    <p className="mb-2"><strong>Gap-Year Mode:</strong> Sized on top of each year&apos;s actual income</p>
+                  )}
+                  {(inputs.conversionStart ?? 'now') !== 'now' || (inputs.conversionStop ?? 'never') !== 'never' ? (
+                    <p className="mb-2"><strong>Conversion Window:</strong> From {windowStart} until {windowStop}</p>
+                  ) : null}
+                  {inputs.conversionStrategy === 'bracket-optimization' && inputs.acaFplLimit !== undefined && (
+                    <p className="mb-2"><strong>ACA Income Limit:</strong> {inputs.acaFplLimit}% of poverty line</p>
+                  )}
+                  <p className="mb-2"><strong>Current Tax Rate:</strong> {formatPercentage(currentTaxRate * 100)}</p>
                   {inputs.enableRetirementBracketAnalysis && inputs.retirementTaxBracket && (
                     <p className="mb-2"><strong>Future Tax Rate:</strong> {formatPercentage((inputs.retirementTaxBracket || 0) * 100)}</p>
                   )}
                   <p className="mb-2"><strong>Total Conversions:</strong> {results.filter(r => r.conversionAmount > 0).length} years</p>
-                  <p><strong>Total Tax Paid:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.conversionTax, 0))}</p>
+                  <p className="mb-2"><strong>Total Tax Paid:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.conversionTax, 0))}</p>
+                  {results.some(r => r.taxWithheld > 0) && (
+                    <p className="mb-2"><strong>Withheld from Conversions:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.taxWithheld, 0))}{results.some(r => r.earlyWithdrawalPenalty > 0) && ` (incl. ${formatCurrency(results.reduce((sum, r) => sum + r.earlyWithdrawalPenalty, 0))} early-withdrawal penalty)`}</p>
+                  )}
+                  <p className="mb-2"><strong>Taxable Account Tax:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.investmentIncomeTax, 0))}</p>
+                  <p className="mb-2"><strong>IRMAA Surcharges:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.irmaaSurcharge, 0))}</p>
+                  <p className="mb-2"><strong>ACA Credits Received:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.premiumTaxCredit, 0))}</p>
+                  <p><strong>ACA Subsidy Lost:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.acaSubsidyLost, 0))}</p>
                 </div>
                 <div>
                   <p className="mb-2"><strong>Break-Even Year:</strong> {breakEvenYear ? `Year ${breakEvenYear}` : 'Not reached'}</p>
                   <p className="mb-2"><strong>Room in Current Bracket:</strong> {formatCurrency(results[0]?.conversionAmount || 0)}</p>
+                  {isJointFiler && inputs.firstDeathYear !== undefined && (
+                    <p className="mb-2"><strong>First Death:</strong> {inputs.deceasedSpouse === 2 ? 'Spouse' : 'You'}, year {inputs.firstDeathYear}; survivor files single after</p>
+                  )}
                   <p className="mb-2"><strong>Final Traditional Balance:</strong> {formatCurrency(results[results.length - 1]?.traditionalBalance || 0)}</p>
-                  <p><strong>Final Roth Balance:</strong> {formatCurrency(results[results.length - 1]?.rothBalance || 0)}</p>
+                  <p className="mb-2"><strong>Final Roth Balance:</strong> {formatCurrency(results[results.length - 1]?.rothBalance || 0)}</p>
+                  {lastResult.rothTranches.length > 0 && (
+                    <p className="mb-2"><strong>Roth Basis:</strong> {formatCurrency(lastResult.rothContributions)} contributions, {formatCurrency(lastResult.rothTranches.reduce((sum, tranche) => sum + tranche.remaining, 0))} conversions, {formatCurrency(lastResult.rothEarnings)} earnings</p>
+                  )}
+                  {results.some(r => r.rothPenalizedWithdrawal > 0) && (
+                    <p className="mb-2"><strong>Penalized Roth Withdrawals:</strong> {results.filter(r => r.rothPenalizedWithdrawal > 0).map(r => `Year ${r.year}`).join(', ')} ({formatCurrency(results.reduce((sum, r) => sum + r.rothWithdrawalPenalty, 0))} penalty)</p>
+                  )}
+                  <p className="mb-2"><strong>Legacy After Heirs&apos; Tax:</strong> {formatCurrency(lastResult.legacyValue)} with conversions, {formatCurrency(lastResult.noConversionLegacyValue)} without</p>
+                  <p className={inputs.annualSpending ? 'mb-2' : ''}><strong>Heirs&apos; Tax on Traditional:</strong> {formatCurrency(lastResult.heirTax)} with conversions, {formatCurrency(lastResult.noConversionHeirTax)} without</p>
+                  {inputs.annualSpending ? (
+                    <>
+                      <p className="mb-2"><strong>Withdrawal Order:</strong> {WITHDRAWAL_ORDER_LABELS[(inputs.withdrawalOrder ?? 'taxable-first') as WithdrawalOrder]}</p>
+                      <p className="mb-2"><strong>Tax on Withdrawals:</strong> {formatCurrency(results.reduce((sum, r) => sum + r.withdrawalTax, 0))}</p>
+                      <p className="mb-2"><strong>Lifetime Tax with Conversions:</strong> {formatCurrency(lastResult?.cumulativeTaxPaid || 0)}</p>
+                      <p><strong>Lifetime Tax without:</strong> {formatCurrency(lastResult?.noConversionCumulativeTaxPaid || 0)}</p>
+                    </>
+                  ) : null}
                 </div>
               </div>
             </div>
             
             <div className="text-lg text-gray-600 bg-gray-50 p-6 rounded-3xl">
-              <p className="mb-2"><strong>Standard Deduction:</strong> {formatCurrency(inputs.filingStatus === 'mfj' ? 29200 : 14600)} ({inputs.filingStatus === 'mfj' ? 'Married' : 'Single'})</p>
-              <p className="mb-2"><strong>State Tax Rate:</strong> {formatPercentage(inputs.stateTaxRate * 100)}</p>
-              <p><strong>Note:</strong> Tax calculations include standard deductions and state taxes. Married filing jointly provides higher standard deduction, allowing more room for conversions.</p>
+              <p className="mb-2"><strong>Standard Deduction:</strong> {formatCurrency(standardDeduction)} ({FILING_STATUS_LABELS[inputs.filingStatus as FilingStatus]}, {firstTaxYear})</p>
+              {results.some(result => result.itemized) && (
+                <p className="mb-2"><strong>Itemizing:</strong> {results.filter(result => result.itemized).map(result => `Year ${result.year}`).join(', ')}</p>
+              )}
+              <p className="mb-2"><strong>State:</strong> {inputs.enableStateTax ? getStateTaxTable(inputs.stateCode).name : 'Not included'}</p>
+              <p className="mb-2"><strong>Bracket Inflation:</strong> {formatPercentage(inputs.taxInflationRate * 100)} per year after published tables</p>
+              <p><strong>Note:</strong> Tax calculations include standard deductions (with the extra amount at 65 and older) or itemized deductions, whichever is larger, and state taxes, including state retirement income exclusions. Joint filers and qualifying surviving spouses get the widest brackets and largest standard deduction, allowing more room for conversions.</p>
             </div>
           </div>
         </CardContent>
@@ -128,31 +259,137 @@ export function Results({ results, inputs }: ResultsProps) {
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Age</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Conversion</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Tax Rate</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Deduction</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Tax Paid</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">IRMAA</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">ACA Credit</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Investment Tax</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Traditional</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Roth</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">RMD</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Social Security</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Withdrawals</th>
                   <th className="text-right py-4 px-6 font-bold text-gray-700">Total Wealth</th>
                 </tr>
               </thead>
               <tbody>
                 {results.slice(0, 15).map((result, index) => (
                   <tr key={index} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
-                    <td className="py-4 px-6 font-bold">{result.year}</td>
-                    <td className="text-right py-4 px-6">{result.age1}</td>
+                    <td className="py-4 px-6 font-bold">
+                      {result.year}
+                      <span className="block text-sm font-normal text-gray-500">{result.taxYear}</span>
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {result.taxpayerAges.join(' / ')}
+                      {isJointFiler && result.taxpayerAges.length === 1 && (
+                        <span className="block text-sm text-gray-500">Survivor, single</span>
+                      )}
+                    </td>
                     <td className="text-right py-4 px-6 font-bold text-green-600">
                       {result.conversionAmount > 0 ? formatCurrency(result.conversionAmount) : '-'}
                     </td>
                     <td className="text-right py-4 px-6">{formatPercentage(result.marginalTaxRate * 100)}</td>
+                    <td className="text-right py-4 px-6">
+                      {formatCurrency(result.deduction)}
+                      <span className="block text-sm text-gray-500">{result.itemized ? 'Itemized' : 'Standard'}</span>
+                    </td>
                     <td className="text-right py-4 px-6">
                       {result.conversionTax > 0 ? formatCurrency(result.conversionTax) : '-'}
+                      {result.taxWithheld > 0 && (
+                        <span className="block text-sm text-gray-500">{formatCurrency(result.taxWithheld)} withheld</span>
+                      )}
+                      {result.earlyWithdrawalPenalty > 0 && (
+                        <span className="block text-sm text-red-500">+{formatCurrency(result.earlyWithdrawalPenalty)} penalty</span>
+                      )}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {result.irmaaSurcharge > 0 ? formatCurrency(result.irmaaSurcharge) : '-'}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {result.premiumTaxCredit > 0 || result.acaSubsidyLost > 0 ? (
+                        <>
+                          {formatCurrency(result.premiumTaxCredit)}
+                          {result.acaSubsidyLost > 0 && (
+                            <span className="block text-sm text-red-500">-{formatCurrency(result.acaSubsidyLost)} lost</span>
+                          )}
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {result.investmentIncomeTax > 0 ? formatCurrency(result.investmentIncomeTax) : '-'}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {formatCurrency(result.traditionalBalance)}
+                      {isJointFiler && result.taxpayerAges.length === 2 && (
+                        <span className="block text-sm text-gray-500">
+                          {formatCurrency(result.traditionalBalances[0])} / {formatCurrency(result.traditionalBalances[1])}
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {formatCurrency(result.rothBalance)}
+                      {taxablePaidResults && (
+                        <span className="block text-sm text-gray-500">
+                          {formatCurrency(taxablePaidResults[index].rothBalance)} paying from taxable
+                        </span>
+                      )}
                     </td>
-                    <td className="text-right py-4 px-6">{formatCurrency(result.traditionalBalance)}</td>
-                    <td className="text-right py-4 px-6">{formatCurrency(result.rothBalance)}</td>
                     <td className="text-right py-4 px-6">
                       {result.rmdAmount > 0 ? formatCurrency(result.rmdAmount) : '-'}
+                      {result.qcdAmount > 0 && (
+                        <span className="block text-sm text-gray-500">{formatCurrency(result.qcdAmount)} QCD</span>
+                      )}
+                      {result.qlacPurchase > 0 && (
+                        <span className="block text-sm text-gray-500">{formatCurrency(result.qlacPurchase)} to QLAC</span>
+                      )}
+                      {result.qlacIncome > 0 && (
+                        <span className="block text-sm text-gray-500">{formatCurrency(result.qlacIncome)} QLAC income</span>
+                      )}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {result.socialSecurityBenefits > 0 ? (
+                        <>
+                          {formatCurrency(result.socialSecurityBenefits)}
+                          <span className="block text-sm text-gray-500">
+                            {formatPercentage((result.taxableSocialSecurity / result.socialSecurityBenefits) * 100)} taxable
+                          </span>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className="text-right py-4 px-6">
+                      {result.taxableWithdrawal + result.traditionalWithdrawal + result.rothWithdrawal > 0 ? (
+                        <>
+                          {formatCurrency(result.taxableWithdrawal + result.traditionalWithdrawal + result.rothWithdrawal)}
+                          {result.taxableWithdrawal > 0 && (
+                            <span className="block text-sm text-gray-500">{formatCurrency(result.taxableWithdrawal)} taxable</span>
+                          )}
+                          {result.traditionalWithdrawal > 0 && (
+                            <span className="block text-sm text-gray-500">{formatCurrency(result.traditionalWithdrawal)} traditional</span>
+                          )}
+                          {result.rothWithdrawal > 0 && (
+                            <span className="block text-sm text-gray-500">{formatCurrency(result.rothWithdrawal)} Roth</span>
+                          )}
+                          {result.rothPenalizedWithdrawal > 0 && (
+                            <span className="block text-sm text-red-600">{formatCurrency(result.rothPenalizedWithdrawal)} Roth penalized</span>
+                          )}
+                          {result.withdrawalTax > 0 && (
+                            <span className="block text-sm text-gray-500">{formatCurrency(result.withdrawalTax)} tax</span>
+                          )}
+                          {result.unmetSpending > 0 && (
+                            <span className="block text-sm text-red-600">{formatCurrency(result.unmetSpending)} unmet</span>
+                          )}
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className={`text-right py-4 px-6 font-bold ${result.shortfall > 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(result.totalAfterTaxWealth)}
+                      {result.iraTaxDistribution > 0 && (
+                        <span className="block text-sm font-normal text-gray-500">{formatCurrency(result.iraTaxDistribution)} IRA for tax</span>
+                      )}
+                      {result.shortfall > 0 && (
+                        <span className="block text-sm font-normal">{formatCurrency(result.shortfall)} unfunded</span>
+                      )}
                     </td>
-                    <td className="text-right py-4 px-6 font-bold">{formatCurrency(result.totalAfterTaxWealth)}</td>
                   </tr>
                 ))}
               </tbody>
@@ -166,6 +403,54 @@ export function Results({ results, inputs }: ResultsProps) {
           )}
         </CardContent>
       </Card>
+
+      {/* Tax Law Scenarios */}
+      <Card className="shadow-xl border-0 rounded-3xl">
+        <CardHeader className="bg-gradient-to-r from-orange-500 to-red-600 text-white rounded-t-3xl">
+          <CardTitle className="text-2xl font-bold flex items-center">
+            <span className="mr-3">⚖️</span>
+            Tax Law Scenarios
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-8">
+          <div className="overflow-x-auto">
+            <table className="w-full text-lg">
+              <thead>
+                <tr className="border-b-2 border-gray-200">
+                  <th className="text-left py-4 px-6 font-bold text-gray-700">Scenario</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Conversion Tax</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Wealth with Conversions</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Wealth without</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Advantage</th>
+                  <th className="text-right py-4 px-6 font-bold text-gray-700">Break-Even</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scenarioOutcomes.map(({ scenario, results: scenarioResults }) => {
+                  const final = scenarioResults[scenarioResults.length - 1];
+                  const advantage = calculateTotalTaxSavings(scenarioResults);
+                  const scenarioBreakEven = findBreakEvenYear(scenarioResults);
+                  return (
+                    <tr key={scenario} className={`border-b border-gray-100 ${scenario === inputs.taxLaw?.scenario ? 'bg-orange-50' : ''}`}>
+                      <td className="py-4 px-6 font-bold">{TAX_LAW_SCENARIO_LABELS[scenario]}</td>
+                      <td className="text-right py-4 px-6">{formatCurrency(scenarioResults.reduce((sum, r) => sum + r.conversionTax, 0))}</td>
+                      <td className="text-right py-4 px-6">{formatCurrency(final.conversionWealth)}</td>
+                      <td className="text-right py-4 px-6">{formatCurrency(final.noConversionWealth)}</td>
+                      <td className={`text-right py-4 px-6 font-bold ${advantage >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(advantage)}
+                      </td>
+                      <td className="text-right py-4 px-6">{scenarioBreakEven ? `Year ${scenarioBreakEven}` : 'Not reached'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-lg text-gray-500 mt-6">
+            Scenarios take effect in {inputs.taxLaw?.fromYear}. The highlighted row is the scenario used above.
+          </p>
+        </CardContent>
+      </Card>
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,137 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { compareStrategies, rankStrategies, COMPARISON_METRIC_LABELS } from '../lib/simulation';
+import { ComparisonMetric, UserInputs } from '../types';
+import { Card, CardContent, CardHeader, CardTitle } from './ui';
+
+interface StrategyRankingProps {
+  inputs: UserInputs;
+}
+
+const COMPARISON_METRICS: ComparisonMetric[] = ['terminal-wealth', 'lifetime-taxes', 'break-even'];
+const LINE_COLORS = ['#6b7280', '#2563eb', '#1d4ed8', '#1e3a8a', '#16a34a', '#15803d', '#14532d', '#f59e0b', '#ea580c', '#dc2626', '#7c3aed'];
+
+export function StrategyRanking({ inputs }: StrategyRankingProps) {
+  const [metric, setMetric] = useState<ComparisonMetric>('terminal-wealth');
+
+  const comparisons = useMemo(() => compareStrategies(inputs), [inputs]);
+  const ranked = useMemo(() => rankStrategies(comparisons, metric), [comparisons, metric]);
+  const leader = ranked[0];
+
+  // One row per year with each run's after-tax wealth; series are keyed by position, since
+  // labels can contain characters recharts reads as paths
+  const chartData = useMemo(() => {
+    const years = comparisons[0]?.results ?? [];
+    return years.map((result, index) => {
+      const row: Record<string, number> = { year: result.year };
+      comparisons.forEach((comparison, series) => {
+        row[`s${series}`] = comparison.afterTaxWealth[index] ?? 0;
+      });
+      return row;
+    });
+  }, [comparisons]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  return (
+    <Card className="shadow-xl border-0 rounded-3xl">
+      <CardHeader className="bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-t-3xl">
+        <CardTitle className="text-2xl font-bold flex items-center">
+          <span className="mr-3">🏁</span>
+          Strategy Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-8">
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-3">Rank By</label>
+            <select
+              value={metric}
+              onChange={(event) => setMetric(event.target.value as ComparisonMetric)}
+              className="w-full p-4 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-lg"
+            >
+              {COMPARISON_METRICS.map(option => (
+                <option key={option} value={option}>{COMPARISON_METRIC_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="p-3 font-bold">Rank</th>
+                  <th className="p-3 font-bold">Strategy</th>
+                  <th className="p-3 font-bold text-right">{COMPARISON_METRIC_LABELS['terminal-wealth']}</th>
+                  <th className="p-3 font-bold text-right">{COMPARISON_METRIC_LABELS['lifetime-taxes']}</th>
+                  <th className="p-3 font-bold text-right">{COMPARISON_METRIC_LABELS['break-even']}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.map((comparison, index) => (
+                  <tr
+                    key={comparison.label}
+                    className={`border-b border-gray-100 ${comparison === leader ? 'bg-emerald-50 font-bold' : ''}`}
+                  >
+                    <td className="p-3">{index + 1}</td>
+                    <td className="p-3">{comparison.label}</td>
+                    <td className="p-3 text-right">{formatCurrency(comparison.terminalWealth)}</td>
+                    <td className="p-3 text-right">{formatCurrency(comparison.lifetimeTaxes)}</td>
+                    <td className="p-3 text-right">
+                      {comparison.strategy === 'none' ? '—' : comparison.breakEvenYear !== null ? `Year ${comparison.breakEvenYear}` : 'Never'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-96">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="year" tickFormatter={(value: number) => `Y${value}`} />
+                <YAxis tickFormatter={(value: number) => `$${Math.round(value / 1000)}k`} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                  labelFormatter={(label: number) => `Year ${label}`}
+                />
+                <Legend />
+                {comparisons.map((comparison, series) => (
+                  <Line
+                    key={comparison.label}
+                    type="monotone"
+                    dataKey={`s${series}`}
+                    name={comparison.label}
+                    stroke={LINE_COLORS[series % LINE_COLORS.length]}
+                    strokeWidth={comparison === leader ? 3 : 1.5}
+                    strokeDasharray={comparison.strategy === 'none' ? '4 4' : undefined}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Every run uses your other settings, including the conversion window. One-time and annual
+            sizes are shares of today&apos;s traditional balance. After-tax wealth counts the traditional
+            IRA net of the tax on level withdrawals over the remaining life expectancy; break-even is
+            the year a run moves ahead of no conversions on that measure for good. Lifetime taxes
+            include IRMAA surcharges and ACA credit lost to conversions.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
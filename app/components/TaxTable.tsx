@@ -1,14 +1,17 @@
 'use client';
 
-import { getBrackets } from '../lib/taxEngine';
+import { getBrackets, LATEST_TAX_YEAR, DEFAULT_TAX_INFLATION_RATE, FILING_STATUS_LABELS } from '../lib/taxEngine';
+import { FilingStatus } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from './ui';
 
 interface TaxTableProps {
-  filingStatus: 'single' | 'mfj';
+  filingStatus: FilingStatus;
+  taxYear?: number;
+  taxInflationRate?: number;
 }
 
-export function TaxTable({ filingStatus }: TaxTableProps) {
-  const brackets = getBrackets(filingStatus);
+export function TaxTable({ filingStatus, taxYear = LATEST_TAX_YEAR, taxInflationRate = DEFAULT_TAX_INFLATION_RATE }: TaxTableProps) {
+  const brackets = getBrackets(filingStatus, taxYear, taxInflationRate);
   
   const formatCurrency = (value: number | null) => {
     if (value === null) return '∞';
@@ -29,7 +32,7 @@ export function TaxTable({ filingStatus }: TaxTableProps) {
       <CardHeader className="bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-t-3xl">
         <CardTitle className="text-2xl font-bold flex items-center">
           <span className="mr-3">🏛️</span>
-          2025 Federal Tax Brackets - {filingStatus === 'mfj' ? 'Married Filing Jointly' : 'Single'}
+          {taxYear} Federal Tax Brackets - {FILING_STATUS_LABELS[filingStatus]}
         </CardTitle>
       </CardHeader>
       <CardContent className="p-8">
@@ -74,7 +77,7 @@ export function TaxTable({ filingStatus }: TaxTableProps) {
             <ul className="text-lg text-emerald-700 space-y-4">
               <li className="flex items-start">
                 <span className="text-emerald-500 mr-3 mt-2">•</span>
-                <span>These are the 2025 federal tax brackets. State taxes (like NY's 6.85%) are additional.</span>
+                <span>These are the {taxYear} federal tax brackets. State income taxes are additional and use each state&apos;s own brackets.</span>
               </li>
               <li className="flex items-start">
                 <span className="text-emerald-500 mr-3 mt-2">•</span>
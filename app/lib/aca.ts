@@ -0,0 +1,95 @@
+import { AcaContributionBand, IncomeComponents } from '../types';
+import { DEFAULT_TAX_INFLATION_RATE } from './taxEngine';
+
+// HHS poverty guidelines for the 48 contiguous states: first person plus each additional person.
+// Coverage in a given year is measured against the previous year's guidelines.
+const POVERTY_GUIDELINES: Record<number, { base: number; perPerson: number }> = {
+  2023: { base: 14580, perPerson: 5140 },
+  2024: { base: 15060, perPerson: 5380 },
+  2025: { base: 15650, perPerson: 5500 },
+};
+
+const EARLIEST_GUIDELINE_YEAR = 2023;
+const LATEST_GUIDELINE_YEAR = 2025;
+
+// Expected contribution as a share of household income, rising linearly across each band.
+// The enhanced credits through 2025 have no upper income limit; from 2026 the original
+// schedule returns, with no credit above 400% of the poverty line.
+const ENHANCED_CONTRIBUTION_BANDS: AcaContributionBand[] = [
+  { fplFrom: 0, fplTo: 1.5, startRate: 0, endRate: 0 },
+  { fplFrom: 1.5, fplTo: 2, startRate: 0, endRate: 0.02 },
+  { fplFrom: 2, fplTo: 2.5, startRate: 0.02, endRate: 0.04 },
+  { fplFrom: 2.5, fplTo: 3, startRate: 0.04, endRate: 0.06 },
+  { fplFrom: 3, fplTo: 4, startRate: 0.06, endRate: 0.085 },
+  { fplFrom: 4, fplTo: null, startRate: 0.085, endRate: 0.085 },
+];
+
+// 2026 applicable percentages, held constant for later years
+const ORIGINAL_CONTRIBUTION_BANDS: AcaContributionBand[] = [
+  { fplFrom: 0, fplTo: 1.33, startRate: 0.021, endRate: 0.021 },
+  { fplFrom: 1.33, fplTo: 1.5, startRate: 0.0314, endRate: 0.0419 },
+  { fplFrom: 1.5, fplTo: 2, startRate: 0.0419, endRate: 0.066 },
+  { fplFrom: 2, fplTo: 2.5, startRate: 0.066, endRate: 0.0844 },
+  { fplFrom: 2.5, fplTo: 3, startRate: 0.0844, endRate: 0.0996 },
+  { fplFrom: 3, fplTo: 4, startRate: 0.0996, endRate: 0.0996 },
+];
+
+const LAST_ENHANCED_YEAR = 2025;
+
+export function getPovertyLine(
+  householdSize: number,
+  coverageYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): number {
+  const guidelineYear = Math.max(EARLIEST_GUIDELINE_YEAR, coverageYear - 1);
+  const { base, perPerson } = POVERTY_GUIDELINES[Math.min(guidelineYear, LATEST_GUIDELINE_YEAR)];
+  const factor = Math.pow(1 + inflationRate, Math.max(0, guidelineYear - LATEST_GUIDELINE_YEAR));
+  return Math.round((base + perPerson * Math.max(0, householdSize - 1)) * factor);
+}
+
+// ACA household income adds back nontaxable Social Security, so every benefit dollar counts
+export function calcAcaMagi(income: IncomeComponents): number {
+  return income.ordinaryIncome
+    + (income.qualifiedDividends ?? 0)
+    + (income.capitalGains ?? 0)
+    + (income.socialSecurityBenefits ?? 0);
+}
+
+// Share of income the household is expected to pay toward the benchmark plan; null when
+// income is outside the range eligible for a credit
+export function getApplicablePercentage(fplRatio: number, coverageYear: number): number | null {
+  if (fplRatio < 1) return null;
+  const bands = coverageYear <= LAST_ENHANCED_YEAR ? ENHANCED_CONTRIBUTION_BANDS : ORIGINAL_CONTRIBUTION_BANDS;
+  const band = bands.find(b => b.fplTo === null || fplRatio < b.fplTo);
+  if (!band) return null;
+  if (band.fplTo === null) return band.startRate;
+  const position = (fplRatio - band.fplFrom) / (band.fplTo - band.fplFrom);
+  return band.startRate + (band.endRate - band.startRate) * position;
+}
+
+// Annual premium tax credit: benchmark (second-lowest silver) premium less the expected contribution
+export function calcPremiumTaxCredit(
+  acaMagi: number,
+  benchmarkPremium: number,
+  householdSize: number,
+  coverageYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): number {
+  if (benchmarkPremium <= 0) return 0;
+  const fplRatio = acaMagi / getPovertyLine(householdSize, coverageYear, inflationRate);
+  const applicablePercentage = getApplicablePercentage(fplRatio, coverageYear);
+  if (applicablePercentage === null) return 0;
+  return Math.max(0, benchmarkPremium - applicablePercentage * acaMagi);
+}
+
+// Largest conversion that keeps ACA household income at or below a percent of the poverty line
+export function maxConversionBelowFpl(
+  acaMagi: number,
+  fplPercent: number,
+  householdSize: number,
+  coverageYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): number {
+  const ceiling = getPovertyLine(householdSize, coverageYear, inflationRate) * fplPercent / 100;
+  return Math.max(0, Math.floor(ceiling - acaMagi));
+}
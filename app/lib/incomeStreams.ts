@@ -0,0 +1,51 @@
+import { IncomeComponents, IncomeStream, IncomeStreamType, IncomeTaxCharacter } from '../types';
+
+export const INCOME_STREAM_LABELS: Record<IncomeStreamType, string> = {
+  wages: 'Wages',
+  pension: 'Pension',
+  annuity: 'Annuity',
+  rental: 'Rental',
+  'one-off': 'One-off',
+};
+
+export const TAX_CHARACTER_LABELS: Record<IncomeTaxCharacter, string> = {
+  ordinary: 'Ordinary income',
+  retirement: 'Retirement income',
+  'capital-gains': 'Long-term capital gains',
+};
+
+// Usual tax character for each type, used when a stream is added
+export const DEFAULT_TAX_CHARACTER: Record<IncomeStreamType, IncomeTaxCharacter> = {
+  wages: 'ordinary',
+  pension: 'retirement',
+  annuity: 'retirement',
+  rental: 'ordinary',
+  'one-off': 'capital-gains',
+};
+
+// A stream's payment in a simulation year, grown from its start year
+export function calcStreamAmount(stream: IncomeStream, year: number): number {
+  const endYear = stream.type === 'one-off' ? stream.startYear : stream.endYear ?? Infinity;
+  if (year < stream.startYear || year > endYear) return 0;
+  return stream.amount * Math.pow(1 + stream.growthRate, year - stream.startYear);
+}
+
+// All streams paid in a year, split by tax character
+export function sumIncomeStreams(streams: IncomeStream[], year: number): IncomeComponents {
+  const income: IncomeComponents = { ordinaryIncome: 0, retirementIncome: 0, capitalGains: 0 };
+  for (const stream of streams) {
+    const amount = calcStreamAmount(stream, year);
+    if (stream.taxCharacter === 'capital-gains') {
+      income.capitalGains = (income.capitalGains ?? 0) + amount;
+    } else {
+      income.ordinaryIncome += amount;
+      if (stream.taxCharacter === 'retirement') income.retirementIncome += amount;
+    }
+  }
+  return income;
+}
+
+// Ordinary income from the streams for each of the first `years` simulation years
+export function projectOrdinaryIncome(streams: IncomeStream[], years: number): number[] {
+  return Array.from({ length: years }, (_, i) => sumIncomeStreams(streams, i + 1).ordinaryIncome);
+}
@@ -0,0 +1,127 @@
+import { FilingStatus, IrmaaTier } from '../types';
+import { calcMagi, DEFAULT_TAX_INFLATION_RATE } from './taxEngine';
+
+// 2025 Medicare IRMAA tiers (based on 2023 MAGI). Surcharges are monthly, per enrollee,
+// above the standard Part B premium, plus the Part D income-related adjustment.
+export const IRMAA_BASE_YEAR = 2025;
+
+// Premiums in a given year are set from MAGI two years earlier
+export const IRMAA_LOOKBACK_YEARS = 2;
+
+export const MEDICARE_ELIGIBILITY_AGE = 65;
+
+const IRMAA_TIERS: Record<'single' | 'mfj' | 'mfs', IrmaaTier[]> = {
+  single: [
+    { magiThreshold: 0, partBSurcharge: 0, partDSurcharge: 0, label: 'Standard' },
+    { magiThreshold: 106000, partBSurcharge: 74.00, partDSurcharge: 13.70, label: 'Tier 1' },
+    { magiThreshold: 133000, partBSurcharge: 185.00, partDSurcharge: 35.30, label: 'Tier 2' },
+    { magiThreshold: 167000, partBSurcharge: 295.90, partDSurcharge: 57.00, label: 'Tier 3' },
+    { magiThreshold: 200000, partBSurcharge: 406.90, partDSurcharge: 78.60, label: 'Tier 4' },
+    { magiThreshold: 500000, partBSurcharge: 443.90, partDSurcharge: 85.80, label: 'Tier 5' },
+  ],
+  mfj: [
+    { magiThreshold: 0, partBSurcharge: 0, partDSurcharge: 0, label: 'Standard' },
+    { magiThreshold: 212000, partBSurcharge: 74.00, partDSurcharge: 13.70, label: 'Tier 1' },
+    { magiThreshold: 266000, partBSurcharge: 185.00, partDSurcharge: 35.30, label: 'Tier 2' },
+    { magiThreshold: 334000, partBSurcharge: 295.90, partDSurcharge: 57.00, label: 'Tier 3' },
+    { magiThreshold: 400000, partBSurcharge: 406.90, partDSurcharge: 78.60, label: 'Tier 4' },
+    { magiThreshold: 750000, partBSurcharge: 443.90, partDSurcharge: 85.80, label: 'Tier 5' },
+  ],
+  // Married filing separately (lived with spouse) jumps straight to the upper tiers
+  mfs: [
+    { magiThreshold: 0, partBSurcharge: 0, partDSurcharge: 0, label: 'Standard' },
+    { magiThreshold: 106000, partBSurcharge: 406.90, partDSurcharge: 78.60, label: 'Tier 4' },
+    { magiThreshold: 394000, partBSurcharge: 443.90, partDSurcharge: 85.80, label: 'Tier 5' },
+  ],
+};
+
+// Head of household and surviving spouses use the single thresholds
+function irmaaSchedule(filingStatus: FilingStatus): 'single' | 'mfj' | 'mfs' {
+  if (filingStatus === 'mfj') return 'mfj';
+  if (filingStatus === 'mfs') return 'mfs';
+  return 'single';
+}
+
+// Thresholds and surcharges after the base year are indexed at the given inflation rate
+export function getIrmaaTiers(
+  filingStatus: FilingStatus,
+  premiumYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): IrmaaTier[] {
+  const tiers = IRMAA_TIERS[irmaaSchedule(filingStatus)];
+  const yearsOut = premiumYear - IRMAA_BASE_YEAR;
+  if (yearsOut <= 0) return tiers;
+
+  const factor = Math.pow(1 + inflationRate, yearsOut);
+  return tiers.map(tier => ({
+    ...tier,
+    magiThreshold: Math.round(tier.magiThreshold * factor / 1000) * 1000,
+    partBSurcharge: tier.partBSurcharge * factor,
+    partDSurcharge: tier.partDSurcharge * factor,
+  }));
+}
+
+export function getIrmaaTierIndex(
+  magi: number,
+  filingStatus: FilingStatus,
+  premiumYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): number {
+  const tiers = getIrmaaTiers(filingStatus, premiumYear, inflationRate);
+  let index = 0;
+  for (let i = 1; i < tiers.length; i++) {
+    if (magi > tiers[i].magiThreshold) index = i;
+  }
+  return index;
+}
+
+// Annual surcharge for the household, given MAGI from the lookback year
+export function calcIrmaaSurcharge(
+  lookbackMagi: number,
+  filingStatus: FilingStatus,
+  premiumYear: number,
+  enrollees: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): number {
+  if (enrollees <= 0) return 0;
+  const tiers = getIrmaaTiers(filingStatus, premiumYear, inflationRate);
+  const tier = tiers[getIrmaaTierIndex(lookbackMagi, filingStatus, premiumYear, inflationRate)];
+  return (tier.partBSurcharge + tier.partDSurcharge) * 12 * enrollees;
+}
+
+// Highest MAGI that keeps premiums at or below the given tier; null when the tier has no ceiling
+export function getIrmaaMagiCeiling(
+  maxTierIndex: number,
+  filingStatus: FilingStatus,
+  premiumYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE
+): number | null {
+  const tiers = getIrmaaTiers(filingStatus, premiumYear, inflationRate);
+  const nextTier = tiers[maxTierIndex + 1];
+  return nextTier ? nextTier.magiThreshold : null;
+}
+
+// Largest conversion that keeps MAGI at or below the ceiling. Taxable Social Security
+// rises with the conversion, so the limit is found by bisection.
+export function maxConversionBelowMagi(
+  otherIncome: number,
+  socialSecurityBenefits: number,
+  filingStatus: FilingStatus,
+  magiCeiling: number
+): number {
+  const magiWith = (conversion: number) =>
+    calcMagi({ ordinaryIncome: otherIncome + conversion, retirementIncome: 0, socialSecurityBenefits }, filingStatus);
+
+  if (magiWith(0) >= magiCeiling) return 0;
+  let low = 0;
+  let high = magiCeiling;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (magiWith(mid) <= magiCeiling) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.floor(low);
+}
@@ -0,0 +1,59 @@
+import { FilingStatus } from '../types';
+import { calcIncrementalTax } from './taxEngine';
+
+// SECURE Act: most non-spouse heirs must empty an inherited IRA by the end of the tenth year
+export const INHERITED_IRA_PAYOUT_YEARS = 10;
+
+// Level yearly payout that empties a balance growing at `growthRate` over the payout years
+export function calcInheritedPayout(
+  balance: number,
+  growthRate: number,
+  payoutYears: number = INHERITED_IRA_PAYOUT_YEARS
+): number {
+  if (balance <= 0 || payoutYears <= 0) return 0;
+  if (growthRate === 0) return balance / payoutYears;
+  return balance * growthRate / (1 - Math.pow(1 + growthRate, -payoutYears));
+}
+
+// Federal tax the heirs owe on an inherited traditional IRA, split evenly between them and
+// taken in level payouts on top of each heir's own income (today's dollars, indexed like the
+// brackets). Each year's tax is discounted back to the inheritance at the account's growth rate.
+export function calcHeirTax(
+  traditionalBalance: number,
+  heirIncome: number,
+  heirFilingStatus: FilingStatus,
+  heirCount: number,
+  inheritanceTaxYear: number,
+  yearsFromToday: number,
+  inflationRate: number,
+  growthRate: number = 0,
+  payoutYears: number = INHERITED_IRA_PAYOUT_YEARS
+): number {
+  const heirs = Math.max(1, Math.round(heirCount));
+  const payout = calcInheritedPayout(traditionalBalance / heirs, growthRate, payoutYears);
+  if (payout <= 0) return 0;
+
+  let presentValue = 0;
+  for (let year = 1; year <= payoutYears; year++) {
+    const income = heirIncome * Math.pow(1 + inflationRate, yearsFromToday + year);
+    const tax = calcIncrementalTax(
+      { ordinaryIncome: income, retirementIncome: 0 },
+      { ordinaryIncome: payout, retirementIncome: payout },
+      {
+        filingStatus: heirFilingStatus,
+        taxYear: inheritanceTaxYear + year,
+        inflationRate,
+        stateCode: null,
+        ages: [],
+      }
+    );
+    presentValue += tax / Math.pow(1 + growthRate, year);
+  }
+  return presentValue * heirs;
+}
+
+// What the estate is worth to the heirs: Roth passes tax-free, taxable accounts get a
+// stepped-up basis, and traditional money is reduced by the heirs' tax on the payouts
+export function calcLegacyValue(traditionalBalance: number, rothBalance: number, taxableBalance: number, heirTax: number): number {
+  return traditionalBalance - heirTax + rothBalance + taxableBalance;
+}
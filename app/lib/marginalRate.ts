@@ -0,0 +1,65 @@
+import { IncomeComponents, MarginalRatePoint, TaxContext } from '../types';
+import { addIncome, calcMagi, calcYearTax } from './taxEngine';
+import { calcIrmaaSurcharge, IRMAA_LOOKBACK_YEARS } from './irmaa';
+import { calcAcaMagi, calcPremiumTaxCredit } from './aca';
+
+// Everything a year's income costs: federal and state tax (including taxable Social Security,
+// capital gains stacking, NIIT and phased-out deductions), the IRMAA surcharge this year's
+// MAGI sets two years later, and any ACA credit it gives up
+export function calcAllInCost(
+  income: IncomeComponents,
+  context: TaxContext,
+  irmaaEnrollees: number = 0,
+  benchmarkPremium: number = 0,
+  householdSize: number = 1
+): number {
+  const irmaa = calcIrmaaSurcharge(
+    calcMagi(income, context.filingStatus),
+    context.filingStatus,
+    context.taxYear + IRMAA_LOOKBACK_YEARS,
+    irmaaEnrollees,
+    context.inflationRate
+  );
+  const premiumTaxCredit = calcPremiumTaxCredit(
+    calcAcaMagi(income),
+    benchmarkPremium,
+    householdSize,
+    context.taxYear,
+    context.inflationRate
+  );
+  return calcYearTax(income, context) + irmaa - premiumTaxCredit;
+}
+
+// Sweep conversion amounts on top of the year's other income. Each point is the all-in rate
+// on the next `step` dollars converted, so cliffs (IRMAA tiers, ACA limits) show as spikes.
+export function calcMarginalRateCurve(
+  baseIncome: IncomeComponents,
+  context: TaxContext,
+  maxConversion: number,
+  step: number = 1000,
+  irmaaEnrollees: number = 0,
+  benchmarkPremium: number = 0,
+  householdSize: number = 1
+): MarginalRatePoint[] {
+  const costAt = (conversionAmount: number) => calcAllInCost(
+    addIncome(baseIncome, { ordinaryIncome: conversionAmount, retirementIncome: conversionAmount }),
+    context,
+    irmaaEnrollees,
+    benchmarkPremium,
+    householdSize
+  );
+
+  const baseCost = costAt(0);
+  const curve: MarginalRatePoint[] = [];
+  let previousCost = baseCost;
+  for (let conversionAmount = 0; conversionAmount < maxConversion; conversionAmount += step) {
+    const nextCost = costAt(conversionAmount + step);
+    curve.push({
+      conversionAmount,
+      marginalRate: (nextCost - previousCost) / step,
+      cumulativeCost: previousCost - baseCost,
+    });
+    previousCost = nextCost;
+  }
+  return curve;
+}
@@ -8,20 +8,114 @@ export const UNIFORM_LIFETIME_TABLE: Record<number, number> = {
   112: 3.3, 113: 3.1, 114: 3.0, 115: 2.9, 116: 2.8, 117: 2.7, 118: 2.5, 119: 2.3, 120: 2.0
 };
 
+const UNIFORM_TABLE_FIRST_AGE = 72;
+const UNIFORM_TABLE_LAST_AGE = 120; // The last row covers 120 and older
+
+// SECURE 2.0 required beginning age by birth year
+export function getRmdStartAge(birthYear: number): number {
+  if (birthYear <= 1950) return 72;
+  if (birthYear <= 1959) return 73;
+  return 75;
+}
+
+// Uniform Lifetime divisor; RMDs never begin before 72, and the 120 row covers every later age
 export function getRmdFactor(age: number): number {
-  return UNIFORM_LIFETIME_TABLE[age] || 1.0;
+  const tableAge = Math.min(UNIFORM_TABLE_LAST_AGE, Math.max(UNIFORM_TABLE_FIRST_AGE, Math.floor(age)));
+  return UNIFORM_LIFETIME_TABLE[tableAge];
+}
+
+// IRS Single Life Table (2022+), ages 0 to 120
+export const SINGLE_LIFE_TABLE: Record<number, number> = {
+  0: 84.6, 1: 83.7, 2: 82.8, 3: 81.8, 4: 80.8, 5: 79.8, 6: 78.8, 7: 77.9, 8: 76.9, 9: 75.9,
+  10: 74.9, 11: 73.9, 12: 72.9, 13: 71.9, 14: 70.9, 15: 69.9, 16: 69.0, 17: 68.0, 18: 67.0, 19: 66.0,
+  20: 65.0, 21: 64.1, 22: 63.1, 23: 62.1, 24: 61.1, 25: 60.2, 26: 59.2, 27: 58.2, 28: 57.3, 29: 56.3,
+  30: 55.3, 31: 54.4, 32: 53.4, 33: 52.5, 34: 51.5, 35: 50.5, 36: 49.6, 37: 48.6, 38: 47.7, 39: 46.7,
+  40: 45.7, 41: 44.8, 42: 43.8, 43: 42.9, 44: 41.9, 45: 41.0, 46: 40.0, 47: 39.0, 48: 38.1, 49: 37.1,
+  50: 36.2, 51: 35.3, 52: 34.3, 53: 33.4, 54: 32.5, 55: 31.6, 56: 30.6, 57: 29.8, 58: 28.9, 59: 28.0,
+  60: 27.1, 61: 26.2, 62: 25.4, 63: 24.5, 64: 23.7, 65: 22.9, 66: 22.0, 67: 21.2, 68: 20.4, 69: 19.6,
+  70: 18.8, 71: 18.0, 72: 17.2, 73: 16.4, 74: 15.6, 75: 14.8, 76: 14.1, 77: 13.3, 78: 12.6, 79: 11.9,
+  80: 11.2, 81: 10.5, 82: 9.9, 83: 9.3, 84: 8.7, 85: 8.1, 86: 7.6, 87: 7.1, 88: 6.6, 89: 6.1,
+  90: 5.7, 91: 5.3, 92: 4.9, 93: 4.6, 94: 4.3, 95: 4.0, 96: 3.7, 97: 3.4, 98: 3.2, 99: 3.0,
+  100: 2.8, 101: 2.6, 102: 2.5, 103: 2.3, 104: 2.2, 105: 2.1, 106: 2.1, 107: 2.1, 108: 2.0, 109: 2.0,
+  110: 2.0, 111: 2.0, 112: 1.9, 113: 1.8, 114: 1.8, 115: 1.6, 116: 1.4, 117: 1.1, 118: 1.0, 119: 1.0,
+  120: 1.0
+};
+
+const SINGLE_TABLE_LAST_AGE = 120;
+
+// Chance of living from each age to the next, read back from the Single Life Table:
+// e(x) = p(x) * (e(x + 1) + 1) with each expectancy measured to mid-year
+function survivalCurve(age: number): number[] {
+  const curve = [1];
+  for (let x = Math.max(0, age); x < SINGLE_TABLE_LAST_AGE; x++) {
+    const survival = (SINGLE_LIFE_TABLE[x] - 0.5) / (SINGLE_LIFE_TABLE[x + 1] + 0.5);
+    curve.push(curve[curve.length - 1] * Math.min(1, Math.max(0, survival)));
+  }
+  return curve;
+}
+
+// Years until the second death, counted to mid-year like the IRS tables
+function jointLastSurvivorExpectancy(ownerAge: number, spouseAge: number): number {
+  const owner = survivalCurve(ownerAge);
+  const spouse = survivalCurve(spouseAge);
+  let expectancy = 0.5;
+  for (let t = 1; t < Math.max(owner.length, spouse.length); t++) {
+    const ownerAlive = owner[t] ?? 0;
+    const spouseAlive = spouse[t] ?? 0;
+    expectancy += ownerAlive + spouseAlive - ownerAlive * spouseAlive;
+  }
+  return expectancy;
+}
+
+// Joint and Last Survivor divisor (Table II), used when the sole beneficiary is a spouse more
+// than ten years younger. Table II and the Uniform table share the Single Life Table's mortality,
+// so the divisor is figured from it; at a ten-year gap this reproduces the Uniform table to
+// within 0.1 through age 111.
+export function getJointLifeFactor(ownerAge: number, spouseAge: number): number {
+  const age = Math.floor(ownerAge);
+  if (age - spouseAge <= 10) return getRmdFactor(age);
+  return Math.round(jointLastSurvivorExpectancy(age, Math.floor(spouseAge)) * 10) / 10;
 }
 
-export function getRmd(balance: number, age: number): number {
-  const factor = getRmdFactor(age);
+// Pass the spouse's age when the spouse is the sole beneficiary
+export function getRmd(balance: number, age: number, spouseAge?: number): number {
+  const factor = spouseAge !== undefined ? getJointLifeFactor(age, spouseAge) : getRmdFactor(age);
   return balance / factor;
 }
 
+// Qualified charitable distributions: IRA money sent straight to charity after 70½ counts
+// toward the RMD but is never income. The per-person limit is indexed from 2024.
+export const QCD_ELIGIBILITY_AGE = 70.5;
+const QCD_LIMITS: Record<number, number> = { 2024: 105000, 2025: 108000 };
+
+// Qualifying longevity annuity contracts: the premium leaves the IRA balance RMDs are figured
+// on, and income must start by 85. The premium limit is indexed in $10,000 steps.
+export const QLAC_LATEST_START_AGE = 85;
+const QLAC_LIMITS: Record<number, number> = { 2023: 200000, 2024: 200000, 2025: 210000 };
+
+function indexedLimit(limits: Record<number, number>, year: number, inflationRate: number, step: number): number {
+  const years = Object.keys(limits).map(Number);
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+  if (year <= last) return limits[Math.max(first, year)];
+  const projected = limits[last] * Math.pow(1 + inflationRate, year - last);
+  return Math.floor(projected / step) * step;
+}
+
+export function getQcdLimit(taxYear: number, inflationRate: number): number {
+  return indexedLimit(QCD_LIMITS, taxYear, inflationRate, 1000);
+}
+
+export function getQlacLimit(taxYear: number, inflationRate: number): number {
+  return indexedLimit(QLAC_LIMITS, taxYear, inflationRate, 10000);
+}
+
 export function calculateRmdSchedule(
   startingBalance: number,
   startingAge: number,
   years: number,
-  growthRate: number
+  growthRate: number,
+  rmdStartAge: number = 73
 ): Array<{ year: number; age: number; balance: number; rmd: number }> {
   const schedule = [];
   let balance = startingBalance;
@@ -32,8 +126,8 @@ export function calculateRmdSchedule(
     // Apply growth first
     balance = balance * (1 + growthRate);
     
-    // Calculate RMD if age 72+
-    const rmd = age >= 72 ? getRmd(balance, age) : 0;
+    // Calculate RMD once the required beginning age is reached
+    const rmd = age >= rmdStartAge ? getRmd(balance, age) : 0;
     
     // Subtract RMD from balance
     balance = Math.max(0, balance - rmd);
@@ -0,0 +1,119 @@
+import { RothLedger } from '../types';
+import { EARLY_WITHDRAWAL_AGE, EARLY_WITHDRAWAL_PENALTY_RATE } from './taxEngine';
+
+// Conversions season, and the Roth's earnings become tax-free, after five tax years
+export const ROTH_SEASONING_YEARS = 5;
+
+export interface RothWithdrawal {
+  contributions: number;
+  conversions: number;
+  earnings: number;
+  penalized: number; // Unseasoned conversions and earnings taken before 59½
+  taxableEarnings: number; // Earnings taken before the distribution is qualified
+  penalty: number;
+}
+
+// An existing Roth is assumed to have been open for five years already
+export function createRothLedger(balance: number, contributions: number, taxYear: number): RothLedger {
+  return {
+    contributions: Math.min(Math.max(0, contributions), Math.max(0, balance)),
+    tranches: [],
+    firstTaxYear: balance > 0 ? taxYear - ROTH_SEASONING_YEARS : undefined,
+  };
+}
+
+export function addConversionTranche(ledger: RothLedger, taxYear: number, amount: number): RothLedger {
+  if (amount <= 0) return ledger;
+  return {
+    ...ledger,
+    tranches: [
+      ...ledger.tranches,
+      { taxYear, seasonedTaxYear: taxYear + ROTH_SEASONING_YEARS, amount, remaining: amount },
+    ],
+    firstTaxYear: ledger.firstTaxYear ?? taxYear,
+  };
+}
+
+export function calcRothEarnings(ledger: RothLedger, balance: number): number {
+  const conversions = ledger.tranches.reduce((total, tranche) => total + tranche.remaining, 0);
+  return Math.max(0, balance - ledger.contributions - conversions);
+}
+
+// Earnings come out tax- and penalty-free once the owner is 59½ and the Roth is five years old
+function isQualified(ledger: RothLedger, taxYear: number, age: number): boolean {
+  return age >= EARLY_WITHDRAWAL_AGE
+    && ledger.firstTaxYear !== undefined
+    && taxYear >= ledger.firstTaxYear + ROTH_SEASONING_YEARS;
+}
+
+// The ledger is spread across the spouses' Roths in proportion to their balances; each share
+// follows the rules at its owner's age
+function ownerShares(balances: number[]): number[] {
+  const total = balances.reduce((sum, balance) => sum + Math.max(0, balance), 0);
+  return balances.map(balance => (total > 0 ? Math.max(0, balance) / total : 0));
+}
+
+// What can be withdrawn this year without tax or penalty
+export function calcPenaltyFreeRoth(ledger: RothLedger, balances: number[], taxYear: number, ages: number[]): number {
+  return ownerShares(balances).reduce((free, share, owner) => {
+    if (share <= 0) return free;
+    if (isQualified(ledger, taxYear, ages[owner])) return free + balances[owner];
+    const conversions = ledger.tranches
+      .filter(tranche => ages[owner] >= EARLY_WITHDRAWAL_AGE || taxYear >= tranche.seasonedTaxYear)
+      .reduce((total, tranche) => total + tranche.remaining, 0);
+    return free + Math.min(balances[owner], (ledger.contributions + conversions) * share);
+  }, 0);
+}
+
+// Take a withdrawal from each spouse's Roth in proportion to its balance, each in the ordering
+// rules' sequence. Conversions less than five years old and earnings carry the 10% penalty
+// before the owner is 59½; earnings are also taxed until qualified.
+export function withdrawFromRoth(
+  ledger: RothLedger,
+  balances: number[],
+  amount: number,
+  taxYear: number,
+  ages: number[]
+): { ledger: RothLedger; withdrawal: RothWithdrawal } {
+  const withdrawal: RothWithdrawal = { contributions: 0, conversions: 0, earnings: 0, penalized: 0, taxableEarnings: 0, penalty: 0 };
+  const balance = balances.reduce((total, owned) => total + Math.max(0, owned), 0);
+  if (amount <= 0 || balance <= 0) return { ledger, withdrawal };
+
+  const earningsAvailable = calcRothEarnings(ledger, balance);
+  const remainingTranches = ledger.tranches.map(tranche => tranche.remaining);
+  ownerShares(balances).forEach((share, owner) => {
+    if (share <= 0) return;
+    const early = ages[owner] < EARLY_WITHDRAWAL_AGE;
+    let remaining = Math.min(amount, balance) * share;
+    const contributions = Math.min(remaining, ledger.contributions * share);
+    withdrawal.contributions += contributions;
+    remaining -= contributions;
+
+    ledger.tranches.forEach((tranche, index) => {
+      const taken = Math.min(remaining, tranche.remaining * share);
+      remaining -= taken;
+      remainingTranches[index] -= taken;
+      withdrawal.conversions += taken;
+      if (early && taxYear < tranche.seasonedTaxYear) withdrawal.penalized += taken;
+    });
+
+    const earnings = Math.min(remaining, earningsAvailable * share);
+    withdrawal.earnings += earnings;
+    if (!isQualified(ledger, taxYear, ages[owner])) {
+      withdrawal.taxableEarnings += earnings;
+      if (early) withdrawal.penalized += earnings;
+    }
+  });
+  withdrawal.penalty = withdrawal.penalized * EARLY_WITHDRAWAL_PENALTY_RATE;
+
+  return {
+    ledger: {
+      ...ledger,
+      contributions: ledger.contributions - withdrawal.contributions,
+      tranches: ledger.tranches
+        .map((tranche, index) => ({ ...tranche, remaining: remainingTranches[index] }))
+        .filter(tranche => tranche.remaining > 0),
+    },
+    withdrawal,
+  };
+}
@@ -1,46 +1,486 @@
-import { UserInputs, SimulationResult } from '../types';
-import { getBrackets, calcMarginalTaxRate, calcTotalTax, getOptimalConversionAmount, getStandardDeduction } from './taxEngine';
-import { getRmd } from './rmd';
+import { UserInputs, SimulationResult, FilingStatus, TaxContext, IncomeComponents, MarginalRatePoint, TaxLawScenario, RothLedger, ConversionStrategy, OptimizationGoal, OptimalConversionPlan, GoalSeekPlan, ComparisonMetric, StrategyComparison, SimulationRun } from '../types';
+import { getBrackets, calcMarginalTaxRate, calcIncrementalTax, calcTaxableSocialSecurity, calcMagi, addIncome, getOptimalConversionAmount, getStandardDeduction, calcDeduction, calcConversionWithholding, calcGrossUpDistribution, EARLY_WITHDRAWAL_AGE, EARLY_WITHDRAWAL_PENALTY_RATE, LATEST_TAX_YEAR, DEFAULT_TAX_INFLATION_RATE } from './taxEngine';
+import { getRmd, getRmdFactor, getRmdStartAge, getQcdLimit, getQlacLimit, QCD_ELIGIBILITY_AGE, QLAC_LATEST_START_AGE } from './rmd';
+import { calcTaxableAccountIncome, taxableAccountIncomeComponents, totalTaxableAccountIncome, reinvestedBasis, basisAfterWithdrawal } from './taxableAccount';
+import { calcAllInCost, calcMarginalRateCurve } from './marginalRate';
+import { calcAcaMagi, calcPremiumTaxCredit, maxConversionBelowFpl } from './aca';
+import { calcIrmaaSurcharge, getIrmaaMagiCeiling, maxConversionBelowMagi, IRMAA_LOOKBACK_YEARS, MEDICARE_ELIGIBILITY_AGE } from './irmaa';
+import { AccountBalances, calcBracketRoom, planWithdrawals } from './withdrawals';
+import { sumIncomeStreams } from './incomeStreams';
+import { calcHeirTax, calcInheritedPayout, calcLegacyValue, INHERITED_IRA_PAYOUT_YEARS } from './legacy';
+import { addConversionTranche, calcPenaltyFreeRoth, calcRothEarnings, createRothLedger, withdrawFromRoth, ROTH_SEASONING_YEARS } from './rothLedger';
 
-export function runSimulation(inputs: UserInputs): SimulationResult[] {
+export const CONVERSION_STRATEGY_LABELS: Record<ConversionStrategy, string> = {
+  'one-time': 'One-time Conversion',
+  annual: 'Annual Conversion',
+  'bracket-optimization': 'Bracket Optimization',
+  ladder: 'Conversion Ladder',
+  optimal: 'Optimal Schedule',
+  'goal-seek': 'Goal Seek',
+  custom: 'Custom Schedule',
+};
+
+function isJointFiling(filingStatus: FilingStatus): boolean {
+  return filingStatus === 'mfj' || filingStatus === 'qss';
+}
+
+// Spouses alive in a simulation year (0 = you, 1 = spouse). The first death leaves one survivor
+// from the following year on; joint returns are still allowed for the year of death.
+function livingSpouses(inputs: UserInputs, year: number): number[] {
+  if (!isJointFiling(inputs.filingStatus)) return [0];
+  if (inputs.firstDeathYear === undefined || year <= inputs.firstDeathYear) return [0, 1];
+  return [inputs.deceasedSpouse === 2 ? 0 : 1];
+}
+
+// RMD on each living spouse's own balance at the given ages. A living spouse more than ten
+// years younger is the beneficiary that moves the owner to the Joint and Last Survivor table.
+function calcSpouseRmds(balances: number[], ages: number[], living: number[]): number[] {
+  return balances.map((balance, spouse) => {
+    if (!living.includes(spouse)) return 0;
+    const beneficiary = spouse === 0 ? 1 : 0;
+    const beneficiaryAge = living.includes(beneficiary) && ages[spouse] - ages[beneficiary] > 10
+      ? ages[beneficiary]
+      : undefined;
+    return getRmd(balance, ages[spouse], beneficiaryAge);
+  });
+}
+
+function yearFilingStatus(inputs: UserInputs, year: number): FilingStatus {
+  return livingSpouses(inputs, year).length === 1 && isJointFiling(inputs.filingStatus) ? 'single' : inputs.filingStatus;
+}
+
+function yearTaxContext(inputs: UserInputs, year: number, taxYear: number, taxpayerAges: number[]): TaxContext {
+  return {
+    filingStatus: yearFilingStatus(inputs, year),
+    taxYear,
+    inflationRate: inputs.taxInflationRate ?? DEFAULT_TAX_INFLATION_RATE,
+    stateCode: inputs.enableStateTax ? inputs.stateCode : null,
+    ages: taxpayerAges,
+    itemizedDeductions: inputs.itemizedDeductions?.find(entry => entry.year === year),
+    taxLaw: inputs.taxLaw,
+  };
+}
+
+// Retired years before Medicare are covered on the ACA marketplace; once one spouse
+// reaches 65 the benchmark premium covers only the other
+function yearBenchmarkPremium(inputs: UserInputs, year: number, taxpayerAges: number[], isRetired: boolean): number {
+  const acaEnrollees = taxpayerAges.filter(age => age < MEDICARE_ELIGIBILITY_AGE).length;
+  if (!isRetired || !inputs.acaBenchmarkPremium || acaEnrollees === 0) return 0;
+  const inflationFactor = Math.pow(1 + (inputs.taxInflationRate ?? DEFAULT_TAX_INFLATION_RATE), year - 1);
+  return inputs.acaBenchmarkPremium * inflationFactor * acaEnrollees / taxpayerAges.length;
+}
+
+// Conversions are allowed from the start (an age, a year or retirement, inclusive) until the
+// stop (an age or year, exclusive; the first RMD; or the first Social Security claim)
+function inConversionWindow(inputs: UserInputs, year: number): boolean {
+  const ages = [inputs.age1 + year - 1, inputs.age2 + year - 1];
+  const living = livingSpouses(inputs, year);
+  const startYear = inputs.startYear ?? new Date().getFullYear();
+  
+  const startValue = inputs.conversionStartValue ?? 0;
+  if (inputs.conversionStart === 'age' && ages[0] < startValue) return false;
+  if (inputs.conversionStart === 'year' && year < startValue) return false;
+  if (inputs.conversionStart === 'retirement' && ages[0] < inputs.retirementAge) return false;
+  
+  const stopValue = inputs.conversionStopValue ?? Infinity;
+  if (inputs.conversionStop === 'age' && ages[0] >= stopValue) return false;
+  if (inputs.conversionStop === 'year' && year >= stopValue) return false;
+  if (inputs.conversionStop === 'rmd-start') {
+    return living.every(spouse => ages[spouse] < getRmdStartAge(startYear - (spouse === 0 ? inputs.age1 : inputs.age2)));
+  }
+  if (inputs.conversionStop === 'ss-claim') {
+    const claims = [
+      { benefit: inputs.socialSecurityBenefit1, claimingAge: inputs.socialSecurityClaimingAge1 },
+      { benefit: inputs.socialSecurityBenefit2, claimingAge: inputs.socialSecurityClaimingAge2 },
+    ];
+    return living.every(spouse => !claims[spouse].benefit || ages[spouse] < claims[spouse].claimingAge);
+  }
+  return true;
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+// Take an amount from the spouses' accounts in proportion to their balances
+function withdrawProRata(balances: number[], amount: number): number[] {
+  const shares = splitProRata(amount, balances);
+  return balances.map((balance, i) => balance - shares[i]);
+}
+
+function splitProRata(amount: number, balances: number[]): number[] {
+  const total = sum(balances.map(balance => Math.max(0, balance)));
+  if (total <= 0) return balances.map(() => amount / balances.length);
+  return balances.map(balance => amount * Math.max(0, balance) / total);
+}
+
+// The survivor treats the deceased spouse's accounts as their own
+function inheritBalances(balances: number[], survivor: number): number[] {
+  return balances.map((_, i) => (i === survivor ? sum(balances) : 0));
+}
+
+// `conversionSchedule` fixes each year's conversion and overrides the strategy
+export function runSimulation(inputs: UserInputs, conversionSchedule?: number[]): SimulationResult[] {
   const results: SimulationResult[] = [];
-  const brackets = getBrackets(inputs.filingStatus);
+  const schedule = conversionSchedule
+    ?? (inputs.conversionStrategy === 'optimal' ? solveOptimalConversions(inputs).schedule : undefined)
+    ?? (inputs.conversionStrategy === 'goal-seek' ? solveGoalSeek(inputs).schedule : undefined);
+  const startYear = inputs.startYear ?? new Date().getFullYear();
+  const taxInflationRate = inputs.taxInflationRate ?? DEFAULT_TAX_INFLATION_RATE;
+  const isJointReturn = isJointFiling(inputs.filingStatus);
   
-  let traditionalBalance = inputs.traditionalBalance;
-  let rothBalance = inputs.rothBalance;
+  // Balances per spouse (you, spouse); the spouse's accounts only apply to joint filers
+  let traditionalBalances = [inputs.traditionalBalance, isJointReturn ? inputs.traditionalBalance2 || 0 : 0];
+  let rothBalances = [inputs.rothBalance, isJointReturn ? inputs.rothBalance2 || 0 : 0];
   let taxableBalance = inputs.taxableBalance || 0;
   let cumulativeTaxPaid = 0;
+  let noConversionCumulativeTaxPaid = 0;
   
   // Track no-conversion scenario - same starting point but no conversions
-  let noConversionTraditional = inputs.traditionalBalance;
-  let noConversionRoth = inputs.rothBalance;
+  let noConversionTraditional = [...traditionalBalances];
+  let noConversionRoth = [...rothBalances];
   let noConversionTaxable = inputs.taxableBalance || 0;
   
+  // Cost basis of the taxable account, for realized gains
+  let taxableBasis = inputs.taxableCostBasis ?? taxableBalance;
+  let noConversionTaxableBasis = taxableBasis;
+  
+  // Roth contributions and conversion tranches, for the five-year rules
+  let rothLedger = createRothLedger(sum(rothBalances), inputs.rothContributionBasis ?? sum(rothBalances), startYear);
+  let noConversionRothLedger = rothLedger;
+  
+  // Growth assumptions (only applied if provided)
+  const expectedReturn = typeof inputs.expectedReturn === 'string' ? parseFloat(inputs.expectedReturn) / 100 : inputs.expectedReturn;
+  const taxableYield = typeof inputs.taxableYield === 'string' ? parseFloat(inputs.taxableYield) / 100 : inputs.taxableYield;
+  const hasGrowth = expectedReturn !== undefined && expectedReturn > 0;
+  const taxableGrows = hasGrowth && taxableYield !== undefined && taxableYield > 0 && inputs.taxableBalance !== undefined;
+  const accountIncome = (balance: number, basis: number) => calcTaxableAccountIncome(
+    taxableGrows ? balance : 0,
+    basis,
+    inputs.qualifiedDividendYield || 0,
+    inputs.interestYield || 0,
+    inputs.gainRealizationRate || 0
+  );
+  
+  // Taxes are only drawn from the taxable account when one was entered
+  const tracksTaxable = inputs.taxableBalance !== undefined;
+  const shortfallFallback = inputs.shortfallFallback ?? 'infeasible';
+  const withholdingShare = inputs.conversionTaxSource === 'withheld'
+    ? 1
+    : inputs.conversionTaxSource === 'split' ? inputs.conversionWithholdingShare ?? 0.5 : 0;
+  const withdrawalOrder = inputs.withdrawalOrder ?? 'taxable-first';
+  const withdrawalBracket = inputs.withdrawalBracket ?? 0.12;
+  const spendingInflationRate = inputs.spendingInflationRate ?? taxInflationRate;
+  
+  // Heirs who inherit the accounts if the horizon ended this year
+  const heirTaxOn = (traditionalBalance: number, year: number, taxYear: number) => calcHeirTax(
+    traditionalBalance,
+    inputs.heirIncome ?? 0,
+    inputs.heirFilingStatus ?? 'single',
+    inputs.heirCount ?? 1,
+    taxYear,
+    year - 1,
+    taxInflationRate,
+    hasGrowth ? expectedReturn : 0
+  );
+  
+  // Annual QLAC income, set when the contract is bought
+  let qlacPayout = 0;
+  
+  // RMD start ages from each spouse's birth year
+  const rmdStartAges = [getRmdStartAge(startYear - inputs.age1), getRmdStartAge(startYear - inputs.age2)];
+  
   // Track if one-time conversion has been done
   let oneTimeConversionDone = false;
   
+  // MAGI by simulation year for the IRMAA lookback; years before the simulation use current income
+  const magiHistory: number[] = [];
+  const noConversionMagiHistory: number[] = [];
+  const lookbackMagi = (history: number[], year: number) => {
+    const lookbackYear = year - IRMAA_LOOKBACK_YEARS;
+    return lookbackYear >= 1 ? history[lookbackYear - 1] : inputs.annualIncome;
+  };
+  
   for (let year = 1; year <= inputs.simulationYears; year++) {
     const age1 = inputs.age1 + year - 1;
     const age2 = inputs.age2 + year - 1;
+    const spouseAges = [age1, age2];
     const isRetired = age1 >= inputs.retirementAge;
+    const living = livingSpouses(inputs, year);
+    const taxpayerAges = living.map(spouse => spouseAges[spouse]);
+    const filingStatus = yearFilingStatus(inputs, year);
+    const widowed = isJointReturn && living.length === 1;
+    const householdSize = Math.max(1, inputs.householdSize - (widowed ? 1 : 0));
+    // Early-withdrawal penalties follow each account's owner: a distribution taken pro rata
+    // from `balances` is penalized on the shares of spouses under 59½
+    const earlyWithdrawalRate = (balances: number[]) => EARLY_WITHDRAWAL_PENALTY_RATE
+      * sum(splitProRata(1, balances).map((share, spouse) => (spouseAges[spouse] < EARLY_WITHDRAWAL_AGE ? share : 0)));
     
-    // Get income for this year
-    let currentYearIncome: number;
-    if (year <= 10) {
-      // Use specific yearly income for first 10 years
-      currentYearIncome = inputs.yearlyIncomes[year - 1] || inputs.annualIncome;
-    } else if (isRetired) {
-      // Use retirement income after retirement age
-      currentYearIncome = inputs.retirementIncome;
-    } else {
-      // Use last working year income for remaining working years
-      currentYearIncome = inputs.yearlyIncomes[9] || inputs.annualIncome;
+    // The year after the first death the survivor inherits both sets of accounts
+    if (widowed && year === (inputs.firstDeathYear ?? 0) + 1) {
+      traditionalBalances = inheritBalances(traditionalBalances, living[0]);
+      rothBalances = inheritBalances(rothBalances, living[0]);
+      noConversionTraditional = inheritBalances(noConversionTraditional, living[0]);
+      noConversionRoth = inheritBalances(noConversionRoth, living[0]);
     }
     
+    // Brackets and deductions are indexed to the calendar year being simulated
+    const taxYear = startYear + year - 1;
+    
+    // A QLAC bought this year leaves your IRA in both plans; it pays a fixed income from the
+    // start age while you are living
+    let qlacPurchase = 0;
+    if (inputs.qlacAmount && age1 === inputs.qlacPurchaseAge && living.includes(0)) {
+      qlacPurchase = Math.min(inputs.qlacAmount, getQlacLimit(taxYear, taxInflationRate), Math.max(0, traditionalBalances[0]));
+      qlacPayout = (inputs.qlacAnnualIncome || 0) * qlacPurchase / inputs.qlacAmount;
+      traditionalBalances = traditionalBalances.map((balance, spouse) => (spouse === 0 ? balance - qlacPurchase : balance));
+      noConversionTraditional = noConversionTraditional.map((balance, spouse) =>
+        spouse === 0 ? balance - Math.min(qlacPurchase, Math.max(0, balance)) : balance
+      );
+    }
+    const qlacIncome = living.includes(0) && age1 >= (inputs.qlacIncomeStartAge ?? QLAC_LATEST_START_AGE) ? qlacPayout : 0;
+    
+    const traditionalBalance = sum(traditionalBalances);
+    const rothBalance = sum(rothBalances);
+    const brackets = getBrackets(filingStatus, taxYear, taxInflationRate, inputs.taxLaw);
+    
+    // Income streams paid this year (the deceased spouse's stop); conversions fill brackets
+    // above the ordinary part, and gains from one-off sales stack above both
+    const streamIncome = addIncome(
+      sumIncomeStreams((inputs.incomeStreams ?? []).filter(stream => living.includes(stream.owner - 1)), year),
+      { ordinaryIncome: qlacIncome, retirementIncome: qlacIncome }
+    );
+    const currentYearIncome = streamIncome.ordinaryIncome;
+    const streamGains = streamIncome.capitalGains ?? 0;
+    
+    // Social Security benefits once each spouse has claimed, grown with inflation from today's
+    // dollars. The survivor keeps the larger of the two benefits.
+    const inflationFactor = Math.pow(1 + taxInflationRate, year - 1);
+    const spouseBenefits = [
+      age1 >= inputs.socialSecurityClaimingAge1 ? (inputs.socialSecurityBenefit1 || 0) * inflationFactor : 0,
+      isJointReturn && age2 >= inputs.socialSecurityClaimingAge2 ? (inputs.socialSecurityBenefit2 || 0) * inflationFactor : 0,
+    ];
+    const socialSecurityBenefits = widowed ? Math.max(...spouseBenefits) : sum(spouseBenefits);
+    
+    const benchmarkPremium = yearBenchmarkPremium(inputs, year, taxpayerAges, isRetired);
+    const acaCovered = benchmarkPremium > 0;
+    const taxContext = yearTaxContext(inputs, year, taxYear, taxpayerAges);
+    
+    // Itemized or age-65 deductions widen the room below each bracket
+    const baseDeduction = calcDeduction(
+      taxContext,
+      calcMagi({ ...streamIncome, socialSecurityBenefits }, filingStatus)
+    ).amount;
+    
+    // Taxes are stacked on the year's other income: the RMD on top of base income,
+    // then the conversion on top of both, so each pays the rates it actually reaches
+    const otherIncome: IncomeComponents = { ...streamIncome, socialSecurityBenefits };
+    
+    // Taxable-account dividends, interest and realized gains are part of base income,
+    // so a conversion stacked on top can push gains out of the 0% bracket
+    const investmentIncome = accountIncome(taxableBalance, taxableBasis);
+    const investmentComponents = taxableAccountIncomeComponents(investmentIncome);
+    const investmentIncomeTax = calcIncrementalTax(otherIncome, investmentComponents, taxContext);
+    const baseIncome = addIncome(otherIncome, investmentComponents);
+    
+    // IRMAA surcharges this year come from MAGI two years back
+    const medicareEnrollees = taxpayerAges.filter(age => age >= MEDICARE_ELIGIBILITY_AGE).length;
+    const irmaaSurcharge = calcIrmaaSurcharge(
+      lookbackMagi(magiHistory, year),
+      filingStatus,
+      taxYear,
+      medicareEnrollees,
+      taxInflationRate
+    );
+    
+    const premiumTaxCredit = (income: IncomeComponents) => calcPremiumTaxCredit(
+      calcAcaMagi(income),
+      benchmarkPremium,
+      householdSize,
+      taxYear,
+      taxInflationRate
+    );
+    
+    // Retirement spending in that year's dollars; income, Social Security and the RMD cover it first
+    const spending = isRetired ? (inputs.annualSpending || 0) * Math.pow(1 + spendingInflationRate, year - 1) : 0;
+    const spendingNeed = (rmdAmount: number) => Math.max(0, spending - currentYearIncome - streamGains - socialSecurityBenefits - rmdAmount);
+    // RMD and QLAC cash that spending doesn't use is reinvested in the taxable account
+    const iraSurplus = (rmdAmount: number) => Math.min(
+      rmdAmount + qlacIncome,
+      Math.max(0, currentYearIncome + streamGains + socialSecurityBenefits + rmdAmount - spending)
+    );
+    
+    // Withdrawals to cover the rest, taxed on top of `taxBase`. Sales from the taxable account
+    // realize their share of unrealized gains; traditional withdrawals are ordinary income,
+    // penalized on the shares of `owners` under 59½, and Roth withdrawals follow the ordering
+    // rules in `ledger` at each owner's age. Taxable
+    // money set aside for the year's other taxes (and the tax on these withdrawals, settled over
+    // a few passes) isn't available for spending. A ladder spends penalty-free Roth money first.
+    const spendingWithdrawals = (
+      need: number,
+      balances: AccountBalances,
+      basis: number,
+      reservedTaxes: number,
+      taxBase: IncomeComponents,
+      roomIncome: number,
+      ledger: RothLedger,
+      owners: { traditional: number[]; roth: number[] }
+    ) => {
+      const room = calcBracketRoom(roomIncome, brackets, withdrawalBracket, baseDeduction);
+      const rothFirst = inputs.conversionStrategy === 'ladder' ? calcPenaltyFreeRoth(ledger, owners.roth, taxYear, spouseAges) : 0;
+      const gainShare = balances.taxable > 0 ? Math.max(0, 1 - basis / balances.taxable) : 0;
+      const penaltyRate = earlyWithdrawalRate(owners.traditional);
+      let withdrawals = planWithdrawals(0, balances, withdrawalOrder);
+      let roth = withdrawFromRoth(ledger, owners.roth, 0, taxYear, spouseAges).withdrawal;
+      let income: IncomeComponents = { ordinaryIncome: 0, retirementIncome: 0 };
+      let tax = 0;
+      for (let pass = 0; pass < 4; pass++) {
+        withdrawals = planWithdrawals(
+          need,
+          { ...balances, taxable: Math.max(0, balances.taxable - reservedTaxes - tax) },
+          withdrawalOrder,
+          room,
+          rothFirst
+        );
+        roth = withdrawFromRoth(ledger, owners.roth, withdrawals.roth, taxYear, spouseAges).withdrawal;
+        income = {
+          ordinaryIncome: withdrawals.traditional + roth.taxableEarnings,
+          retirementIncome: withdrawals.traditional + roth.taxableEarnings,
+          capitalGains: withdrawals.taxable * gainShare,
+        };
+        tax = calcIncrementalTax(taxBase, income, taxContext) + withdrawals.traditional * penaltyRate + roth.penalty;
+      }
+      return { withdrawals, roth, income, tax };
+    };
+    
+    // Each living spouse takes an RMD from their own account once they reach their SECURE 2.0
+    // start age, working or not
+    const spouseRmds = (balances: number[]) => calcSpouseRmds(balances, spouseAges, living)
+      .map((rmd, spouse) => (spouseAges[spouse] < rmdStartAges[spouse] ? 0 : rmd));
+    
+    // QCDs come from spouses past 70½, up to each one's limit, and satisfy their RMDs first.
+    // Only the RMD left after the QCD is taxable; a QCD beyond the RMD still leaves the IRA.
+    const qcdTarget = (inputs.annualQcd || 0) * inflationFactor;
+    const qcdLimit = getQcdLimit(taxYear, taxInflationRate);
+    const requiredDistributions = (balances: number[]) => {
+      const rmds = spouseRmds(balances);
+      const eligible = balances.map((balance, spouse) =>
+        living.includes(spouse) && spouseAges[spouse] >= QCD_ELIGIBILITY_AGE ? Math.max(0, balance) : 0
+      );
+      const qcdTotal = Math.min(qcdTarget, qcdLimit * eligible.filter(balance => balance > 0).length, sum(eligible));
+      const qcds = splitProRata(qcdTotal, eligible).map(qcd => Math.min(qcd, qcdLimit));
+      return {
+        rmds,
+        qcds,
+        taxable: sum(rmds.map((rmd, spouse) => Math.max(0, rmd - qcds[spouse]))),
+        withdrawn: rmds.map((rmd, spouse) => Math.max(rmd, qcds[spouse])),
+      };
+    };
+    
+    // Each spouse's conversion withholds its share of the tax, penalized at that spouse's age
+    const conversionWithholding = (shares: number[], tax: number) => {
+      const taxShares = splitProRata(tax, shares);
+      const bySpouse = shares.map((share, spouse) =>
+        calcConversionWithholding(share, taxShares[spouse], withholdingShare, spouseAges[spouse])
+      );
+      return {
+        withheld: sum(bySpouse.map(spouse => spouse.withheld)),
+        penalty: sum(bySpouse.map(spouse => spouse.penalty)),
+        withheldShares: bySpouse.map(spouse => spouse.withheld),
+      };
+    };
+    
+    // Everything the year costs for a given conversion, so a shortfall can resize it.
+    // Spending withdrawals happen either way, so the conversion is stacked on top of them.
+    // Conversions come from each spouse's IRA in proportion to its balance.
+    const conversionYear = (conversion: number) => {
+      const conversionShares = splitProRata(conversion, traditionalBalances);
+      const required = requiredDistributions(traditionalBalances.map((balance, spouse) => balance - conversionShares[spouse]));
+      const rmdAmount = sum(required.rmds);
+      const rmdIncome: IncomeComponents = { ordinaryIncome: required.taxable, retirementIncome: required.taxable };
+      const conversionIncome: IncomeComponents = { ordinaryIncome: conversion, retirementIncome: conversion };
+      const incomeWithRmd = addIncome(baseIncome, rmdIncome);
+      const rmdTax = calcIncrementalTax(baseIncome, rmdIncome, taxContext);
+      
+      // The conversion tax is estimated below the withdrawals to size the taxable reserve
+      const estimatedConversionTax = calcIncrementalTax(incomeWithRmd, conversionIncome, taxContext);
+      const estimate = conversionWithholding(conversionShares, estimatedConversionTax);
+      const remainingTraditional = traditionalBalances.map((balance, spouse) => balance - conversionShares[spouse] - required.withdrawn[spouse]);
+      const spent = spendingWithdrawals(
+        spendingNeed(required.taxable),
+        {
+          taxable: taxableBalance,
+          traditional: sum(remainingTraditional),
+          roth: rothBalance + conversion - estimate.withheld,
+        },
+        taxableBasis,
+        rmdTax + irmaaSurcharge + investmentIncomeTax + estimatedConversionTax + estimate.penalty - estimate.withheld,
+        incomeWithRmd,
+        incomeWithRmd.ordinaryIncome + conversion,
+        addConversionTranche(rothLedger, taxYear, conversion - estimate.withheld),
+        {
+          traditional: remainingTraditional,
+          roth: rothBalances.map((balance, spouse) => balance + conversionShares[spouse] - estimate.withheldShares[spouse]),
+        }
+      );
+      const withdrawalTax = spent.tax;
+      
+      const incomeBeforeConversion = addIncome(incomeWithRmd, spent.income);
+      const totalIncome = addIncome(incomeBeforeConversion, conversionIncome);
+      const conversionTax = calcIncrementalTax(incomeBeforeConversion, conversionIncome, taxContext);
+      
+      // Conversion income reduces the ACA credit; the lost subsidy is part of the conversion's cost
+      const yearPremiumTaxCredit = premiumTaxCredit(totalIncome);
+      const acaSubsidyLost = premiumTaxCredit(incomeBeforeConversion) - yearPremiumTaxCredit;
+      
+      // Withheld tax comes out of the converted amount; the taxable account pays the rest
+      const { withheld, penalty, withheldShares } = conversionWithholding(conversionShares, conversionTax);
+      return {
+        conversionShares,
+        withheldShares,
+        required,
+        rmdAmount,
+        rmdTax,
+        rmdSurplus: iraSurplus(required.taxable),
+        conversionTax,
+        incomeBeforeConversion,
+        totalIncome,
+        premiumTaxCredit: yearPremiumTaxCredit,
+        acaSubsidyLost,
+        taxWithheld: withheld,
+        earlyWithdrawalPenalty: penalty,
+        withdrawals: spent.withdrawals,
+        rothWithdrawal: spent.roth,
+        withdrawalTax,
+        taxPayments: conversionTax + penalty - withheld + rmdTax + irmaaSurcharge + investmentIncomeTax + acaSubsidyLost + withdrawalTax,
+      };
+    };
+    
+    // The year's income before any conversion: RMDs, spending withdrawals, investment income
+    // and the taxable part of Social Security on top of the income streams
+    const actualIncome = () => {
+      const income = conversionYear(0).incomeBeforeConversion;
+      const magiIncome = income.ordinaryIncome + (income.qualifiedDividends ?? 0) + (income.capitalGains ?? 0);
+      return {
+        income,
+        magiIncome,
+        ordinaryIncome: income.ordinaryIncome + calcTaxableSocialSecurity(socialSecurityBenefits, magiIncome, filingStatus),
+      };
+    };
+    
     // Determine conversion amount based on strategy
     let conversionAmount = 0;
+    const warnings: string[] = [];
     
-    if (inputs.conversionStrategy === 'one-time' && !oneTimeConversionDone) {
+    if (!inConversionWindow(inputs, year)) {
+      conversionAmount = 0;
+    } else if (schedule) {
+      conversionAmount = Math.min(Math.max(0, schedule[year - 1] ?? 0), traditionalBalance);
+    } else if (inputs.conversionStrategy === 'one-time' && !oneTimeConversionDone) {
       // One-time conversion: convert specific dollar amount once
       if (inputs.oneTimeConversionAmount) {
         conversionAmount = Math.min(inputs.oneTimeConversionAmount, traditionalBalance);
@@ -52,104 +492,851 @@ export function runSimulation(inputs: UserInputs): SimulationResult[] {
         conversionAmount = Math.min(inputs.annualConversionAmount, traditionalBalance);
       }
     } else if (inputs.conversionStrategy === 'bracket-optimization') {
-      // Bracket optimization: convert to fill target tax bracket
-      if (inputs.targetTaxBracket && !isRetired) {
+      // Bracket optimization: convert to fill target tax bracket in every year of the window
+      if (inputs.targetTaxBracket) {
+        // Gap-year mode sizes against everything the year already brings in, not just the income streams
+        let sizingIncome = currentYearIncome;
+        let magiIncome = currentYearIncome + streamGains;
+        let acaIncome: IncomeComponents = otherIncome;
+        if (inputs.gapYearMode) {
+          const actual = actualIncome();
+          sizingIncome = actual.ordinaryIncome;
+          magiIncome = actual.magiIncome;
+          acaIncome = actual.income;
+        }
         conversionAmount = getOptimalConversionAmount(
-          currentYearIncome,
+          sizingIncome,
           traditionalBalance,
           brackets,
           inputs.targetTaxBracket,
-          inputs.filingStatus
+          filingStatus,
+          taxYear,
+          taxInflationRate,
+          baseDeduction
+        );
+        
+        // Optionally stop below an IRMAA tier once this year's MAGI will set Medicare premiums
+        const reachesMedicare = taxpayerAges.some(age => age + IRMAA_LOOKBACK_YEARS >= MEDICARE_ELIGIBILITY_AGE);
+        if (inputs.irmaaTierLimit !== undefined && reachesMedicare) {
+          const magiCeiling = getIrmaaMagiCeiling(
+            inputs.irmaaTierLimit,
+            filingStatus,
+            taxYear + IRMAA_LOOKBACK_YEARS,
+            taxInflationRate
+          );
+          if (magiCeiling !== null) {
+            conversionAmount = Math.min(
+              conversionAmount,
+              maxConversionBelowMagi(magiIncome, socialSecurityBenefits, filingStatus, magiCeiling)
+            );
+          }
+        }
+        
+        // Optionally stop at a percent of the poverty line to protect the premium tax credit
+        if (inputs.acaFplLimit !== undefined && acaCovered) {
+          conversionAmount = Math.min(
+            conversionAmount,
+            maxConversionBelowFpl(
+              calcAcaMagi(acaIncome),
+              inputs.acaFplLimit,
+              householdSize,
+              taxYear,
+              taxInflationRate
+            )
+          );
+        }
+      }
+    } else if (inputs.conversionStrategy === 'ladder') {
+      // Conversion ladder: convert what spending five years out will need beyond that year's
+      // income, while that year still comes before 59½ (after it, IRA withdrawals are penalty-free)
+      const ladderYear = year + ROTH_SEASONING_YEARS;
+      const ladderAges = livingSpouses(inputs, ladderYear).map(spouse => spouseAges[spouse] + ROTH_SEASONING_YEARS);
+      if (inputs.annualSpending && age1 + ROTH_SEASONING_YEARS >= inputs.retirementAge && Math.max(...ladderAges) < EARLY_WITHDRAWAL_AGE) {
+        const ladderIncome = sumIncomeStreams(
+          (inputs.incomeStreams ?? []).filter(stream => livingSpouses(inputs, ladderYear).includes(stream.owner - 1)),
+          ladderYear
+        );
+        const ladderSpending = inputs.annualSpending * Math.pow(1 + spendingInflationRate, ladderYear - 1);
+        conversionAmount = Math.min(
+          Math.max(0, ladderSpending - ladderIncome.ordinaryIncome - (ladderIncome.capitalGains ?? 0)),
+          traditionalBalance
         );
       }
+    } else if (inputs.conversionStrategy === 'custom') {
+      // Custom schedule: the year's dollar amount, or else enough to fill its target bracket
+      // on top of the year's actual income
+      const entry = (inputs.customConversions ?? []).find(row => row.year === year);
+      if (entry?.amount !== undefined) {
+        conversionAmount = Math.min(Math.max(0, entry.amount), traditionalBalance);
+        if (entry.amount > traditionalBalance && traditionalBalance > 0) {
+          warnings.push(`Scheduled conversion of ${formatDollars(entry.amount)} cut to the ${formatDollars(traditionalBalance)} traditional balance`);
+        }
+      } else if (entry?.targetBracket) {
+        conversionAmount = getOptimalConversionAmount(
+          actualIncome().ordinaryIncome,
+          traditionalBalance,
+          brackets,
+          entry.targetBracket,
+          filingStatus,
+          taxYear,
+          taxInflationRate,
+          baseDeduction
+        );
+      }
+    }
+    
+    let outcome = conversionYear(conversionAmount);
+    
+    // Taxes beyond the taxable account: apply the chosen fallback, and flag what is left unfunded
+    const availableTaxable = Math.max(0, taxableBalance);
+    // Spending sales and tax payments both come out of the taxable account, net of the RMD cash reinvested in it
+    const taxableOutflow = (costs: ReturnType<typeof conversionYear>) => costs.taxPayments + costs.withdrawals.taxable - costs.rmdSurplus;
+    // Whole dollars, so cents left from settling the withdrawal tax don't flag a shortfall
+    const shortfallOf = (costs: ReturnType<typeof conversionYear>) => Math.max(0, Math.round(taxableOutflow(costs) - availableTaxable));
+    let shortfall = tracksTaxable ? shortfallOf(outcome) : 0;
+    if (shortfall > 0) {
+      warnings.push(`Taxes of ${formatDollars(outcome.taxPayments)} exceed the ${formatDollars(availableTaxable + outcome.rmdSurplus - outcome.withdrawals.taxable)} left in the taxable account`);
+      
+      if (shortfallFallback === 'cap-conversion' && conversionAmount > 0) {
+        let low = 0;
+        let high = conversionAmount;
+        for (let i = 0; i < 40; i++) {
+          const mid = (low + high) / 2;
+          if (taxableOutflow(conversionYear(mid)) <= availableTaxable) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        warnings.push(`Conversion cut from ${formatDollars(conversionAmount)} to ${formatDollars(Math.floor(low))} so the taxable account can pay its tax`);
+        conversionAmount = Math.floor(low);
+        outcome = conversionYear(conversionAmount);
+        shortfall = shortfallOf(outcome);
+      }
     }
     
-    // Calculate tax on conversion
-    const taxableIncome = currentYearIncome + conversionAmount;
-    const currentTaxRate = calcMarginalTaxRate(currentYearIncome, brackets, inputs.filingStatus);
-    const marginalTaxRate = calcMarginalTaxRate(taxableIncome, brackets, inputs.filingStatus);
-    const conversionTax = calcTotalTax(conversionAmount, brackets, inputs.enableStateTax ? inputs.stateTaxRate : 0, inputs.filingStatus);
-    
-    // Apply conversion
-    traditionalBalance -= conversionAmount;
-    rothBalance += conversionAmount;
-    if (inputs.taxableBalance !== undefined) {
-      taxableBalance -= conversionTax;
+    const { withdrawals, withdrawalTax, rothWithdrawal } = outcome;
+    if (withdrawals.unmet > 0) {
+      warnings.push(`Spending short by ${formatDollars(withdrawals.unmet)}: every account is exhausted`);
+    }
+    if (rothWithdrawal.penalized > 0) {
+      warnings.push(`${formatDollars(rothWithdrawal.penalized)} of the Roth withdrawal is unseasoned conversions or earnings: ${formatDollars(rothWithdrawal.penalty)} early-withdrawal penalty`);
     }
     
-    // Calculate RMD if applicable (only if retired)
-    const rmdAmount = isRetired && age1 >= 72 ? getRmd(traditionalBalance, age1) : 0;
-    const rmdTax = rmdAmount > 0 ? calcTotalTax(rmdAmount, brackets, inputs.enableStateTax ? inputs.stateTaxRate : 0) : 0;
+    // Apply conversion, RMDs and spending withdrawals; withholding leaves each spouse's conversion
+    const rothBeforeWithdrawal = rothBalances.map((balance, spouse) => balance + outcome.conversionShares[spouse] - outcome.withheldShares[spouse]);
+    traditionalBalances = withdrawProRata(
+      traditionalBalances.map((balance, spouse) => balance - outcome.conversionShares[spouse] - outcome.required.withdrawn[spouse]),
+      withdrawals.traditional
+    );
+    rothLedger = withdrawFromRoth(
+      addConversionTranche(rothLedger, taxYear, conversionAmount - outcome.taxWithheld),
+      rothBeforeWithdrawal,
+      withdrawals.roth,
+      taxYear,
+      spouseAges
+    ).ledger;
+    rothBalances = withdrawProRata(rothBeforeWithdrawal, withdrawals.roth);
     
-    // Apply RMD
-    traditionalBalance -= rmdAmount;
-    if (inputs.taxableBalance !== undefined) {
-      taxableBalance -= rmdTax;
+    let iraTaxDistribution = 0;
+    let grossUpTax = 0;
+    if (shortfall > 0 && shortfallFallback === 'ira-gross-up') {
+      const grossUpRate = earlyWithdrawalRate(traditionalBalances);
+      const grossUp = calcGrossUpDistribution(shortfall, outcome.totalIncome, taxContext, grossUpRate);
+      const distributionAvailable = Math.max(0, sum(traditionalBalances));
+      if (grossUp.distribution <= distributionAvailable) {
+        iraTaxDistribution = grossUp.distribution;
+        grossUpTax = grossUp.tax + grossUp.penalty;
+        shortfall = 0;
+      } else {
+        iraTaxDistribution = distributionAvailable;
+        grossUpTax = calcIncrementalTax(
+          outcome.totalIncome,
+          { ordinaryIncome: iraTaxDistribution, retirementIncome: iraTaxDistribution },
+          taxContext
+        ) + iraTaxDistribution * grossUpRate;
+        shortfall = Math.max(0, shortfall - (iraTaxDistribution - grossUpTax));
+      }
+      traditionalBalances = withdrawProRata(traditionalBalances, iraTaxDistribution);
+      warnings.push(`Withdrew ${formatDollars(iraTaxDistribution)} from the traditional IRA, ${formatDollars(grossUpTax)} of it for its own tax`);
+    }
+    if (shortfall > 0) {
+      warnings.push(`Plan infeasible: ${formatDollars(shortfall)} of taxes cannot be paid from the taxable account`);
     }
     
-    // Apply investment growth (only if growth assumptions provided)
-    const expectedReturn = typeof inputs.expectedReturn === 'string' ? parseFloat(inputs.expectedReturn) / 100 : inputs.expectedReturn;
-    const taxableYield = typeof inputs.taxableYield === 'string' ? parseFloat(inputs.taxableYield) / 100 : inputs.taxableYield;
+    if (tracksTaxable) {
+      // The reinvested surplus is new basis; the year's payments then come out of the account
+      const taxPayments = outcome.taxPayments + withdrawals.taxable + grossUpTax - iraTaxDistribution;
+      taxableBasis = basisAfterWithdrawal(taxableBalance + outcome.rmdSurplus, taxableBasis + outcome.rmdSurplus, taxPayments);
+      taxableBalance += outcome.rmdSurplus - taxPayments;
+    }
     
-    if (expectedReturn !== undefined && expectedReturn > 0) {
-      traditionalBalance *= (1 + expectedReturn);
-      rothBalance *= (1 + expectedReturn);
-      if (taxableYield !== undefined && taxableYield > 0 && inputs.taxableBalance !== undefined) {
+    const {
+      rmdAmount,
+      rmdTax,
+      conversionTax,
+      taxWithheld,
+      earlyWithdrawalPenalty,
+      acaSubsidyLost,
+      incomeBeforeConversion,
+    } = outcome;
+    const yearPremiumTaxCredit = outcome.premiumTaxCredit;
+    const finalIncome = addIncome(outcome.totalIncome, { ordinaryIncome: iraTaxDistribution, retirementIncome: iraTaxDistribution });
+    
+    // Conversions and RMDs raise provisional income, which can make more benefits taxable
+    const taxableSocialSecurity = calcTaxableSocialSecurity(
+      socialSecurityBenefits,
+      finalIncome.ordinaryIncome + (finalIncome.qualifiedDividends ?? 0) + (finalIncome.capitalGains ?? 0),
+      filingStatus
+    );
+    const magi = calcMagi(finalIncome, filingStatus);
+    magiHistory.push(magi);
+    const deduction = calcDeduction(taxContext, magi);
+    const marginalTaxRate = calcMarginalTaxRate(
+      finalIncome.ordinaryIncome + taxableSocialSecurity,
+      brackets,
+      filingStatus,
+      taxYear,
+      taxInflationRate,
+      deduction.amount
+    );
+    
+    // Apply investment growth (only if growth assumptions provided)
+    if (hasGrowth) {
+      traditionalBalances = traditionalBalances.map(balance => balance * (1 + expectedReturn));
+      rothBalances = rothBalances.map(balance => balance * (1 + expectedReturn));
+      if (taxableGrows) {
         taxableBalance *= (1 + taxableYield);
+        taxableBasis = reinvestedBasis(taxableBasis, investmentIncome);
       }
     }
     
     // Calculate no-conversion scenario - same logic but no conversions
-    const noConversionRmdAmount = isRetired && age1 >= 72 ? getRmd(noConversionTraditional, age1) : 0;
-    const noConversionRmdTax = noConversionRmdAmount > 0 ? calcTotalTax(noConversionRmdAmount, brackets, inputs.enableStateTax ? inputs.stateTaxRate : 0) : 0;
+    const noConversionRequired = requiredDistributions(noConversionTraditional);
+    const noConversionRmdAmount = noConversionRequired.taxable;
+    const noConversionRmdIncome: IncomeComponents = { ordinaryIncome: noConversionRmdAmount, retirementIncome: noConversionRmdAmount };
+    const noConversionInvestmentIncome = accountIncome(noConversionTaxable, noConversionTaxableBasis);
+    const noConversionInvestmentComponents = taxableAccountIncomeComponents(noConversionInvestmentIncome);
+    const noConversionInvestmentTax = calcIncrementalTax(otherIncome, noConversionInvestmentComponents, taxContext);
+    const noConversionBaseIncome = addIncome(otherIncome, noConversionInvestmentComponents);
+    const noConversionRmdTax = calcIncrementalTax(noConversionBaseIncome, noConversionRmdIncome, taxContext);
+    const noConversionIrmaa = calcIrmaaSurcharge(
+      lookbackMagi(noConversionMagiHistory, year),
+      filingStatus,
+      taxYear,
+      medicareEnrollees,
+      taxInflationRate
+    );
     
-    noConversionTraditional -= noConversionRmdAmount;
-    if (inputs.taxableBalance !== undefined) {
-      noConversionTaxable -= noConversionRmdTax;
+    const noConversionIncomeWithRmd = addIncome(noConversionBaseIncome, noConversionRmdIncome);
+    const noConversionSpent = spendingWithdrawals(
+      spendingNeed(noConversionRmdAmount),
+      {
+        taxable: noConversionTaxable,
+        traditional: sum(noConversionTraditional) - sum(noConversionRequired.withdrawn),
+        roth: sum(noConversionRoth),
+      },
+      noConversionTaxableBasis,
+      noConversionRmdTax + noConversionIrmaa + noConversionInvestmentTax,
+      noConversionIncomeWithRmd,
+      noConversionIncomeWithRmd.ordinaryIncome,
+      noConversionRothLedger,
+      {
+        traditional: noConversionTraditional.map((balance, spouse) => balance - noConversionRequired.withdrawn[spouse]),
+        roth: noConversionRoth,
+      }
+    );
+    const noConversionWithdrawalTax = noConversionSpent.tax;
+    const noConversionIncome = addIncome(noConversionIncomeWithRmd, noConversionSpent.income);
+    noConversionMagiHistory.push(calcMagi(noConversionIncome, filingStatus));
+    
+    noConversionTraditional = withdrawProRata(
+      noConversionTraditional.map((balance, spouse) => balance - noConversionRequired.withdrawn[spouse]),
+      noConversionSpent.withdrawals.traditional
+    );
+    noConversionRothLedger = withdrawFromRoth(
+      noConversionRothLedger,
+      noConversionRoth,
+      noConversionSpent.withdrawals.roth,
+      taxYear,
+      spouseAges
+    ).ledger;
+    noConversionRoth = withdrawProRata(noConversionRoth, noConversionSpent.withdrawals.roth);
+    let noConversionGrossUpTax = 0;
+    if (tracksTaxable) {
+      const noConversionSurplus = iraSurplus(noConversionRequired.taxable);
+      let noConversionTaxPayments = noConversionRmdTax + noConversionIrmaa + noConversionInvestmentTax
+        + noConversionWithdrawalTax + noConversionSpent.withdrawals.taxable;
+      const noConversionShortfall = Math.round(noConversionTaxPayments - noConversionSurplus - Math.max(0, noConversionTaxable));
+      if (noConversionShortfall > 0 && shortfallFallback === 'ira-gross-up') {
+        const grossUp = calcGrossUpDistribution(
+          noConversionShortfall,
+          noConversionIncome,
+          taxContext,
+          earlyWithdrawalRate(noConversionTraditional)
+        );
+        const distribution = Math.min(grossUp.distribution, Math.max(0, sum(noConversionTraditional)));
+        noConversionGrossUpTax = distribution === grossUp.distribution
+          ? grossUp.tax + grossUp.penalty
+          : distribution * (grossUp.tax + grossUp.penalty) / grossUp.distribution;
+        noConversionTraditional = withdrawProRata(noConversionTraditional, distribution);
+        noConversionTaxPayments += noConversionGrossUpTax - distribution;
+      }
+      noConversionTaxableBasis = basisAfterWithdrawal(
+        noConversionTaxable + noConversionSurplus,
+        noConversionTaxableBasis + noConversionSurplus,
+        noConversionTaxPayments
+      );
+      noConversionTaxable += noConversionSurplus - noConversionTaxPayments;
     }
     
-    if (expectedReturn !== undefined && expectedReturn > 0) {
-      noConversionTraditional *= (1 + expectedReturn);
-      noConversionRoth *= (1 + expectedReturn);
-      if (taxableYield !== undefined && taxableYield > 0 && inputs.taxableBalance !== undefined) {
+    if (hasGrowth) {
+      noConversionTraditional = noConversionTraditional.map(balance => balance * (1 + expectedReturn));
+      noConversionRoth = noConversionRoth.map(balance => balance * (1 + expectedReturn));
+      if (taxableGrows) {
         noConversionTaxable *= (1 + taxableYield);
+        noConversionTaxableBasis = reinvestedBasis(noConversionTaxableBasis, noConversionInvestmentIncome);
       }
     }
     
-    // Calculate total after-tax wealth
-    const totalAfterTaxWealth = traditionalBalance + rothBalance + Math.max(0, taxableBalance);
-    const noConversionWealth = noConversionTraditional + noConversionRoth + Math.max(0, noConversionTaxable);
+    // Calculate total after-tax wealth; an overdrawn taxable account counts against it
+    const totalAfterTaxWealth = sum(traditionalBalances) + sum(rothBalances) + taxableBalance;
+    const noConversionWealth = sum(noConversionTraditional) + sum(noConversionRoth) + noConversionTaxable;
+    
+    // Legacy value to heirs, net of their tax on the inherited traditional balance
+    const heirTax = heirTaxOn(sum(traditionalBalances), year, taxYear);
+    const noConversionHeirTax = heirTaxOn(sum(noConversionTraditional), year, taxYear);
+    const legacyValue = calcLegacyValue(sum(traditionalBalances), sum(rothBalances), taxableBalance, heirTax);
+    const noConversionLegacyValue = calcLegacyValue(sum(noConversionTraditional), sum(noConversionRoth), noConversionTaxable, noConversionHeirTax);
     
     // Check for break-even - when conversion strategy becomes beneficial
     const breakEven = totalAfterTaxWealth > noConversionWealth;
     
-    cumulativeTaxPaid += conversionTax + rmdTax;
+    cumulativeTaxPaid += conversionTax + earlyWithdrawalPenalty + rmdTax + investmentIncomeTax + grossUpTax + withdrawalTax;
+    noConversionCumulativeTaxPaid += noConversionRmdTax + noConversionInvestmentTax + noConversionWithdrawalTax + noConversionGrossUpTax;
     
     results.push({
       year,
+      taxYear,
       age1,
       age2,
-      traditionalBalance,
-      rothBalance,
+      traditionalBalance: sum(traditionalBalances),
+      rothBalance: sum(rothBalances),
+      traditionalBalances: [...traditionalBalances],
+      rothBalances: [...rothBalances],
+      filingStatus,
+      taxpayerAges,
       taxableBalance: inputs.taxableBalance !== undefined ? taxableBalance : undefined,
       conversionAmount,
       conversionTax,
+      taxWithheld,
+      earlyWithdrawalPenalty,
       marginalTaxRate,
       rmdAmount,
       rmdTax,
+      qcdAmount: sum(outcome.required.qcds),
+      qlacPurchase,
+      qlacIncome,
       cumulativeTaxPaid,
       totalAfterTaxWealth,
       noConversionWealth,
       conversionWealth: totalAfterTaxWealth,
+      heirTax,
+      noConversionHeirTax,
+      legacyValue,
+      noConversionLegacyValue,
       breakEven,
       isRetired,
-      annualIncome: currentYearIncome
+      annualIncome: currentYearIncome + streamGains,
+      socialSecurityBenefits,
+      taxableSocialSecurity,
+      magi,
+      irmaaSurcharge,
+      premiumTaxCredit: yearPremiumTaxCredit,
+      acaSubsidyLost,
+      investmentIncome: totalTaxableAccountIncome(investmentIncome),
+      investmentIncomeTax,
+      taxableCostBasis: inputs.taxableBalance !== undefined ? taxableBasis : undefined,
+      deduction: deduction.amount,
+      itemized: deduction.itemized,
+      baseIncome: incomeBeforeConversion,
+      iraTaxDistribution,
+      shortfall,
+      spending,
+      taxableWithdrawal: withdrawals.taxable,
+      traditionalWithdrawal: withdrawals.traditional,
+      rothWithdrawal: withdrawals.roth,
+      withdrawalTax,
+      unmetSpending: withdrawals.unmet,
+      rothContributions: rothLedger.contributions,
+      rothTranches: rothLedger.tranches,
+      rothEarnings: calcRothEarnings(rothLedger, sum(rothBalances)),
+      rothPenaltyFree: calcPenaltyFreeRoth(rothLedger, rothBalances, taxYear + 1, spouseAges.map(age => age + 1)),
+      rothPenalizedWithdrawal: rothWithdrawal.penalized,
+      rothWithdrawalPenalty: rothWithdrawal.penalty,
+      noConversionCumulativeTaxPaid,
+      warnings
     });
   }
   
   return results;
 }
 
+// Solve the strategy (for the optimal and goal-seek schedules) and simulate it. Pages and comparisons should
+// start here; runSimulation on its own re-solves the strategy on every call.
+export function simulateStrategy(inputs: UserInputs): SimulationRun {
+  if (inputs.conversionStrategy === 'optimal') {
+    const optimalPlan = solveOptimalConversions(inputs);
+    return { results: runSimulation(inputs, optimalPlan.schedule), schedule: optimalPlan.schedule, optimalPlan };
+  }
+  if (inputs.conversionStrategy === 'goal-seek') {
+    const goalPlan = solveGoalSeek(inputs);
+    return { results: runSimulation(inputs, goalPlan.schedule), schedule: goalPlan.schedule, goalPlan };
+  }
+  return { results: runSimulation(inputs) };
+}
+
+// Rerun the simulation under each tax-law scenario from the same starting year; the custom
+// scenario is included only when a table has been entered. A solved schedule is replayed as is.
+export function compareTaxLawScenarios(
+  inputs: UserInputs,
+  conversionSchedule?: number[]
+): Array<{ scenario: TaxLawScenario; results: SimulationResult[] }> {
+  const fromYear = inputs.taxLaw?.fromYear ?? LATEST_TAX_YEAR + 1;
+  const scenarios: TaxLawScenario[] = ['current-law', 'tcja-sunset'];
+  if (inputs.taxLaw?.customBrackets && inputs.taxLaw.customBrackets.length > 0) {
+    scenarios.push('custom');
+  }
+  
+  return scenarios.map(scenario => ({
+    scenario,
+    results: runSimulation({ ...inputs, taxLaw: { ...inputs.taxLaw, scenario, fromYear } }, conversionSchedule),
+  }));
+}
+
+// Tax on drawing down a traditional balance after `last` in level withdrawals over the oldest
+// living spouse's Uniform Lifetime divisor. Each withdrawal sits on top of that year's income
+// without its RMD, and each year's tax is discounted back at the growth rate.
+function calcLiquidationTax(inputs: UserInputs, last: SimulationResult, balance: number): number {
+  if (balance <= 0) return 0;
+  const expectedReturn = typeof inputs.expectedReturn === 'string' ? parseFloat(inputs.expectedReturn) / 100 : inputs.expectedReturn;
+  const growth = expectedReturn !== undefined && expectedReturn > 0 ? expectedReturn : 0;
+  const payoutYears = last.taxpayerAges.length > 0
+    ? Math.max(1, Math.round(getRmdFactor(Math.max(...last.taxpayerAges))))
+    : INHERITED_IRA_PAYOUT_YEARS;
+  const payout = calcInheritedPayout(balance, growth, payoutYears);
+  const rmdTaxable = Math.max(0, last.rmdAmount - last.qcdAmount);
+  const base = addIncome(last.baseIncome, { ordinaryIncome: -rmdTaxable, retirementIncome: -rmdTaxable });
+  
+  let presentValue = 0;
+  for (let year = 1; year <= payoutYears; year++) {
+    const tax = calcIncrementalTax(
+      base,
+      { ordinaryIncome: payout, retirementIncome: payout },
+      yearTaxContext(inputs, last.year, last.taxYear + year, last.taxpayerAges.map(age => age + year))
+    );
+    presentValue += tax / Math.pow(1 + growth, year);
+  }
+  return presentValue;
+}
+
+// Wealth the optimal strategy maximizes, as of the end of the horizon. Terminal wealth counts
+// the traditional balance net of the tax to draw it down over the remaining life expectancy.
+export function scoreResults(inputs: UserInputs, results: SimulationResult[], goal: OptimizationGoal = 'terminal'): number {
+  const last = results[results.length - 1];
+  if (!last) return 0;
+  if (goal === 'legacy') return last.legacyValue;
+  return last.conversionWealth - calcLiquidationTax(inputs, last, last.traditionalBalance);
+}
+
+const OPTIMAL_GRID_STEPS = 40;
+const OPTIMAL_REFINEMENT_PASSES = 4;
+const HEURISTIC_BRACKETS = [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+
+// Search year-by-year conversions with dynamic programming over the traditional balance. Each
+// year's states are fractions of the no-conversion balance; moving to a lower state next year
+// implies the conversion. A conversion's value is the Roth dollars it adds, grown to the end of
+// the horizon, less its all-in cost (tax, IRMAA, lost ACA credit) stacked on the year's other
+// income and grown at the rate of the money that pays it: the taxable account after its own
+// tax, or, once that runs dry, the IRA or Roth withdrawal it stands in for. RMDs are taxed as
+// they come out, and their cash lands in the taxable account. Other income, spending
+// withdrawals and the taxable account's cash flows come from a reference run: no conversions
+// at first, then the solved schedules, so the model follows the income the conversions cause.
+// Each schedule is checked with the full simulation against the fixed strategies, and the best
+// fixed strategy wins if it does better.
+export function solveOptimalConversions(inputs: UserInputs, steps: number = OPTIMAL_GRID_STEPS): OptimalConversionPlan {
+  const goal = inputs.optimizationGoal ?? 'terminal';
+  const years = inputs.simulationYears;
+  const baseline = runSimulation(inputs, new Array(years).fill(0));
+  const taxInflationRate = inputs.taxInflationRate ?? DEFAULT_TAX_INFLATION_RATE;
+  const expectedReturn = typeof inputs.expectedReturn === 'string' ? parseFloat(inputs.expectedReturn) / 100 : inputs.expectedReturn;
+  const taxableYield = typeof inputs.taxableYield === 'string' ? parseFloat(inputs.taxableYield) / 100 : inputs.taxableYield;
+  const growth = expectedReturn !== undefined && expectedReturn > 0 ? expectedReturn : 0;
+  const tracksTaxable = inputs.taxableBalance !== undefined;
+  const taxableRate = growth > 0 && taxableYield !== undefined && taxableYield > 0 && tracksTaxable ? taxableYield : 0;
+  
+  // Traditional balance at the start of each year (after any QLAC purchase) without conversions
+  const initialTraditional = inputs.traditionalBalance + (isJointFiling(inputs.filingStatus) ? inputs.traditionalBalance2 || 0 : 0);
+  const startBalances = baseline.map((result, index) =>
+    Math.max(0, (index === 0 ? initialTraditional : baseline[index - 1].traditionalBalance) - result.qlacPurchase)
+  );
+  
+  // Value of the traditional balance left at the end of the horizon
+  const last = baseline[years - 1];
+  const endBalance = last.traditionalBalance;
+  const terminalValue = (balance: number) => balance - (goal === 'legacy'
+    ? calcHeirTax(balance, inputs.heirIncome ?? 0, inputs.heirFilingStatus ?? 'single', inputs.heirCount ?? 1, last.taxYear, years - 1, taxInflationRate, growth)
+    : calcLiquidationTax(inputs, last, balance));
+  // What a traditional dollar left to the end is worth after its tax
+  const traditionalAfterTax = endBalance > 0 ? terminalValue(endBalance) / endBalance : 1;
+  
+  // Each year's model, from the stacked income and taxable-account cash flows of `reference`.
+  // RMD shares follow age and QCDs, so they come from the no-conversion run.
+  const buildYearModels = (reference: SimulationResult[]) => {
+    // End-of-horizon value of a taxable dollar at the start of each year. It grows at the
+    // account's yield less the tax on its dividends, interest and gains; once the account is
+    // drawn dry it stands in for the IRA withdrawal (or Roth withdrawal) that pays the year's
+    // spending or tax instead.
+    const taxableGrowth: number[] = new Array(years + 1).fill(1);
+    for (let index = years - 1; index >= 0; index--) {
+      const result = reference[index];
+      const start = index === 0 ? inputs.taxableBalance ?? 0 : reference[index - 1].taxableBalance ?? 0;
+      const drained = (result.taxableBalance ?? 0) <= 1;
+      const rothGrowth = Math.pow(1 + growth, years - index);
+      if (drained && result.traditionalWithdrawal + result.iraTaxDistribution > 0 && result.marginalTaxRate < 1) {
+        taxableGrowth[index] = rothGrowth * traditionalAfterTax / (1 - result.marginalTaxRate);
+      } else if (drained && result.rothWithdrawal > 0) {
+        taxableGrowth[index] = rothGrowth;
+      } else {
+        const drag = start > 0 ? Math.min(taxableRate, result.investmentIncomeTax / start) : 0;
+        taxableGrowth[index] = taxableGrowth[index + 1] * (1 + taxableRate - drag);
+      }
+    }
+    
+    return reference.map((result, index) => {
+      const start = startBalances[index];
+      const noConversion = baseline[index];
+      const rmdTaxable = Math.max(0, result.rmdAmount - result.qcdAmount);
+      const widowed = isJointFiling(inputs.filingStatus) && result.taxpayerAges.length === 1;
+      const context = yearTaxContext(inputs, result.year, result.taxYear, result.taxpayerAges);
+      const otherIncome = addIncome(result.baseIncome, { ordinaryIncome: -rmdTaxable, retirementIncome: -rmdTaxable });
+      const irmaaEnrollees = result.taxpayerAges.filter(age => age + IRMAA_LOOKBACK_YEARS >= MEDICARE_ELIGIBILITY_AGE).length;
+      const benchmarkPremium = yearBenchmarkPremium(inputs, result.year, result.taxpayerAges, result.isRetired);
+      const householdSize = Math.max(1, inputs.householdSize - (widowed ? 1 : 0));
+      return {
+        start,
+        rmdShare: start > 0 ? Math.max(noConversion.rmdAmount, noConversion.qcdAmount) / start : 0,
+        rmdTaxableShare: start > 0 ? Math.max(0, noConversion.rmdAmount - noConversion.qcdAmount) / start : 0,
+        // RMDs cover spending first, sparing withdrawals from the other accounts
+        spendingNeed: Math.max(0, result.spending - result.annualIncome - result.socialSecurityBenefits),
+        fixedWithdrawals: result.traditionalWithdrawal + noConversion.iraTaxDistribution,
+        cost: (extraIncome: number) => calcAllInCost(
+          addIncome(otherIncome, { ordinaryIncome: extraIncome, retirementIncome: extraIncome }),
+          context,
+          irmaaEnrollees,
+          benchmarkPremium,
+          householdSize
+        ),
+        rothGrowth: Math.pow(1 + growth, years - index),
+        taxableGrowth: taxableGrowth[index],
+      };
+    });
+  };
+  
+  // Backward pass over the balance grid, then a forward pass from the actual starting balance
+  const solveSchedule = (yearModels: ReturnType<typeof buildYearModels>) => {
+    // Year's value of converting `conversion` from `balance`, and the balance it leaves next year
+    const step = (index: number, balance: number, conversion: number) => {
+      const model = yearModels[index];
+      const remaining = balance - conversion;
+      const rmdTaxable = remaining * model.rmdTaxableShare;
+      const rmdCash = tracksTaxable ? rmdTaxable : Math.min(rmdTaxable, model.spendingNeed);
+      const value = conversion * model.rothGrowth
+        - model.cost(conversion + rmdTaxable) * model.taxableGrowth
+        + rmdCash * model.taxableGrowth;
+      const next = Math.max(0, remaining * (1 - model.rmdShare) - model.fixedWithdrawals) * (1 + growth);
+      return { value, next };
+    };
+    
+    const gridBalance = (index: number, state: number) => (index < years ? yearModels[index].start : endBalance) * state / steps;
+    const interpolate = (values: number[], index: number, balance: number) => {
+      const top = index < years ? yearModels[index].start : endBalance;
+      if (top <= 0) return values[0];
+      const position = Math.min(steps, Math.max(0, balance / top * steps));
+      const lower = Math.floor(position);
+      const upper = Math.min(steps, lower + 1);
+      return values[lower] + (values[upper] - values[lower]) * (position - lower);
+    };
+    
+    // Best value from each state, and the conversion that achieves it
+    let nextValues = Array.from({ length: steps + 1 }, (_, state) => terminalValue(gridBalance(years, state)));
+    const policy: number[][] = [];
+    for (let index = years - 1; index >= 0; index--) {
+      const model = yearModels[index];
+      const values: number[] = [];
+      const conversions: number[] = [];
+      const windowOpen = inConversionWindow(inputs, index + 1);
+      for (let state = 0; state <= steps; state++) {
+        const balance = gridBalance(index, state);
+        const noConversion = step(index, balance, 0);
+        let bestValue = noConversion.value + interpolate(nextValues, index + 1, noConversion.next);
+        let bestConversion = 0;
+        for (let target = 0; windowOpen && target <= steps; target++) {
+          // Conversion that lands exactly on the target state next year
+          const targetBalance = gridBalance(index + 1, target);
+          const remaining = model.rmdShare < 1 ? (targetBalance / (1 + growth) + model.fixedWithdrawals) / (1 - model.rmdShare) : 0;
+          const conversion = balance - remaining;
+          if (conversion <= 0) continue;
+          const value = step(index, balance, conversion).value + nextValues[target];
+          if (value > bestValue) {
+            bestValue = value;
+            bestConversion = conversion;
+          }
+        }
+        values.push(bestValue);
+        conversions.push(bestConversion);
+      }
+      policy[index] = conversions;
+      nextValues = values;
+    }
+    
+    const schedule: number[] = [];
+    let balance = startBalances[0];
+    for (let index = 0; index < years; index++) {
+      if (index > 0) balance = Math.max(0, balance - baseline[index].qlacPurchase);
+      const conversion = Math.min(balance, Math.round(interpolate(policy[index], index, balance)));
+      schedule.push(conversion);
+      balance = step(index, balance, conversion).next;
+    }
+    return schedule;
+  };
+  
+  // Re-solve against the run of the schedules so far, keeping the best schedule found. Each
+  // pass moves the reference halfway toward the new schedule, so the year the taxable account
+  // runs dry doesn't swing back and forth between passes.
+  let schedule: number[] = [];
+  let solvedValue = -Infinity;
+  const tryPlan = (candidate: number[]) => {
+    const results = runSimulation(inputs, candidate);
+    const value = scoreResults(inputs, results, goal);
+    if (value > solvedValue) {
+      schedule = candidate;
+      solvedValue = value;
+    }
+    return results;
+  };
+  let reference = baseline;
+  let referenceSchedule: number[] = [];
+  for (let pass = 0; pass < OPTIMAL_REFINEMENT_PASSES; pass++) {
+    const candidate = solveSchedule(buildYearModels(reference));
+    const candidateResults = tryPlan(candidate);
+    if (pass === 0) {
+      referenceSchedule = candidate;
+      reference = candidateResults;
+    } else {
+      referenceSchedule = referenceSchedule.map((conversion, index) => Math.round((conversion + candidate[index]) / 2));
+      reference = tryPlan(referenceSchedule);
+    }
+  }
+  
+  // Fixed strategies to beat: none, bracket optimization at each rate, the comparison's
+  // one-time and annual sizes, and any amounts entered
+  const base: UserInputs = { ...inputs, oneTimeConversionAmount: undefined, annualConversionAmount: undefined };
+  const heuristics: Array<{ label: string; results: SimulationResult[] }> = [
+    { label: 'No conversions', results: baseline },
+    ...HEURISTIC_BRACKETS.map(rate => ({
+      label: `${CONVERSION_STRATEGY_LABELS['bracket-optimization']} (${Math.round(rate * 100)}%)`,
+      results: runSimulation({ ...inputs, conversionStrategy: 'bracket-optimization', targetTaxBracket: rate }),
+    })),
+    ...COMPARISON_ONE_TIME_SHARES.map(share => ({
+      label: `${CONVERSION_STRATEGY_LABELS['one-time']} of ${formatDollars(comparisonAmount(inputs, share))}`,
+      results: runSimulation({ ...base, conversionStrategy: 'one-time', oneTimeConversionAmount: comparisonAmount(inputs, share) }),
+    })),
+    ...COMPARISON_ANNUAL_SHARES.map(share => ({
+      label: `${CONVERSION_STRATEGY_LABELS.annual} of ${formatDollars(comparisonAmount(inputs, share))}`,
+      results: runSimulation({ ...base, conversionStrategy: 'annual', annualConversionAmount: comparisonAmount(inputs, share) }),
+    })),
+  ];
+  if (inputs.annualConversionAmount) {
+    heuristics.push({ label: CONVERSION_STRATEGY_LABELS.annual, results: runSimulation({ ...inputs, conversionStrategy: 'annual' }) });
+  }
+  if (inputs.oneTimeConversionAmount) {
+    heuristics.push({ label: CONVERSION_STRATEGY_LABELS['one-time'], results: runSimulation({ ...inputs, conversionStrategy: 'one-time' }) });
+  }
+  const scored = heuristics.map(heuristic => ({ ...heuristic, value: scoreResults(inputs, heuristic.results, goal) }));
+  const best = scored.reduce((top, heuristic) => (heuristic.value > top.value ? heuristic : top));
+  
+  const useSolved = solvedValue >= best.value;
+  return {
+    schedule: useSolved ? schedule : best.results.map(result => result.conversionAmount),
+    goal,
+    value: Math.max(solvedValue, best.value),
+    bestHeuristic: best.label,
+    heuristicValue: best.value,
+    gain: solvedValue - best.value,
+  };
+}
+
+const GOAL_SEEK_ITERATIONS = 16;
+
+// Smallest level (annual amount, or income level to fill to) whose conversions meet the target
+// by the goal age. Bracket pacing sizes each year against the income of the previous pass, so
+// RMDs that shrink as the balance falls are accounted for.
+export function solveGoalSeek(inputs: UserInputs): GoalSeekPlan {
+  const target = inputs.goalTarget ?? 'traditional-balance';
+  const pacing = inputs.goalPacing ?? 'level';
+  const goalValue = inputs.goalValue ?? 0;
+  const goalAge = inputs.goalAge ?? 73;
+  const years = inputs.simulationYears;
+  const taxInflationRate = inputs.taxInflationRate ?? DEFAULT_TAX_INFLATION_RATE;
+  // The balances at the end of the year before the goal age set the first RMDs at that age
+  const goalYear = Math.min(years, Math.max(1, goalAge - inputs.age1));
+  const startYear = inputs.startYear ?? new Date().getFullYear();
+  const rmdStartAges = [getRmdStartAge(startYear - inputs.age1), getRmdStartAge(startYear - inputs.age2)];
+  const goalAges = [inputs.age1 + goalYear, inputs.age2 + goalYear];
+  const goalLiving = livingSpouses(inputs, goalYear + 1);
+  
+  // Each spouse's first RMD on their goal-age balance, at the goal age or their own start age
+  // if that comes later (the partner's age moves with it for the joint table)
+  const firstRmds = (balances: number[]) => balances.reduce((total, _, spouse) => {
+    const delay = Math.max(0, rmdStartAges[spouse] - goalAges[spouse]);
+    return total + calcSpouseRmds(balances, goalAges.map(age => age + delay), goalLiving)[spouse];
+  }, 0);
+  
+  const projectedAt = (results: SimulationResult[]) => {
+    const result = results[goalYear - 1];
+    if (target === 'roth-share') {
+      const total = result.traditionalBalance + result.rothBalance;
+      return total > 0 ? result.rothBalance / total : 0;
+    }
+    return target === 'first-rmd' ? firstRmds(result.traditionalBalances) : result.traditionalBalance;
+  };
+  const meets = (results: SimulationResult[]) =>
+    target === 'roth-share' ? projectedAt(results) >= goalValue : projectedAt(results) <= goalValue;
+  
+  const scheduleFor = (level: number, previous: SimulationResult[]) => previous.map((result, index) => {
+    if (index >= goalYear) return 0;
+    if (pacing === 'level') return level;
+    const income = result.baseIncome;
+    const preferential = (income.qualifiedDividends ?? 0) + (income.capitalGains ?? 0);
+    const ordinaryIncome = income.ordinaryIncome
+      + calcTaxableSocialSecurity(result.socialSecurityBenefits, income.ordinaryIncome + preferential, result.filingStatus);
+    return Math.max(0, Math.round(level * Math.pow(1 + taxInflationRate, index) - ordinaryIncome));
+  });
+  const baseline = runSimulation(inputs, new Array(years).fill(0));
+  const simulateLevel = (level: number) => {
+    let results = runSimulation(inputs, scheduleFor(level, baseline));
+    if (pacing === 'bracket') results = runSimulation(inputs, scheduleFor(level, results));
+    return results;
+  };
+  
+  const initialTraditional = inputs.traditionalBalance + (isJointFiling(inputs.filingStatus) ? inputs.traditionalBalance2 || 0 : 0);
+  let low = 0;
+  let high = initialTraditional
+    + (pacing === 'bracket' ? Math.max(0, ...baseline.map(result => result.baseIncome.ordinaryIncome)) : 0);
+  let results = baseline;
+  let achieved = meets(baseline);
+  if (!achieved) {
+    results = simulateLevel(high);
+    achieved = meets(results);
+    for (let i = 0; achieved && i < GOAL_SEEK_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const midResults = simulateLevel(mid);
+      if (meets(midResults)) {
+        high = mid;
+        results = midResults;
+      } else {
+        low = mid;
+      }
+    }
+  }
+  
+  return {
+    schedule: results.map(result => result.conversionAmount),
+    level: achieved && results === baseline ? 0 : Math.round(high),
+    achieved,
+    projected: projectedAt(results),
+    taxCost: results.reduce((total, result) => total + result.conversionTax + result.earlyWithdrawalPenalty + result.acaSubsidyLost, 0),
+  };
+}
+
+export const COMPARISON_METRIC_LABELS: Record<ComparisonMetric, string> = {
+  'terminal-wealth': 'After-tax terminal wealth',
+  'lifetime-taxes': 'Lifetime taxes',
+  'break-even': 'Break-even year',
+};
+
+// Comparison sizes, as shares of today's traditional balance
+const COMPARISON_ONE_TIME_SHARES = [0.1, 0.25, 0.5];
+const COMPARISON_ANNUAL_SHARES = [0.02, 0.05, 0.1];
+const COMPARISON_BRACKETS = [0.12, 0.22, 0.24, 0.32];
+
+// A share of today's traditional balance, to the nearest $1,000
+function comparisonAmount(inputs: UserInputs, share: number): number {
+  const initialTraditional = inputs.traditionalBalance + (isJointFiling(inputs.filingStatus) ? inputs.traditionalBalance2 || 0 : 0);
+  return Math.max(1000, Math.round(initialTraditional * share / 1000) * 1000);
+}
+
+// Run the fixed strategies side by side from the same inputs: no conversions, one-time and
+// annual conversions sized from today's traditional balance, and bracket optimization at each
+// common rate. The conversion window and every other setting apply to all of them.
+export function compareStrategies(inputs: UserInputs): StrategyComparison[] {
+  const base: UserInputs = { ...inputs, oneTimeConversionAmount: undefined, annualConversionAmount: undefined, targetTaxBracket: undefined };
+  
+  const runs: Array<{ label: string; strategy: ConversionStrategy | 'none'; results: SimulationResult[] }> = [
+    { label: 'No conversions', strategy: 'none', results: runSimulation(inputs, new Array(inputs.simulationYears).fill(0)) },
+    ...COMPARISON_ONE_TIME_SHARES.map(share => ({
+      label: `${CONVERSION_STRATEGY_LABELS['one-time']} of ${formatDollars(comparisonAmount(inputs, share))}`,
+      strategy: 'one-time' as const,
+      results: runSimulation({ ...base, conversionStrategy: 'one-time', oneTimeConversionAmount: comparisonAmount(inputs, share) }),
+    })),
+    ...COMPARISON_ANNUAL_SHARES.map(share => ({
+      label: `${CONVERSION_STRATEGY_LABELS.annual} of ${formatDollars(comparisonAmount(inputs, share))}`,
+      strategy: 'annual' as const,
+      results: runSimulation({ ...base, conversionStrategy: 'annual', annualConversionAmount: comparisonAmount(inputs, share) }),
+    })),
+    ...COMPARISON_BRACKETS.map(rate => ({
+      label: `${CONVERSION_STRATEGY_LABELS['bracket-optimization']} (${Math.round(rate * 100)}%)`,
+      strategy: 'bracket-optimization' as const,
+      results: runSimulation({ ...inputs, conversionStrategy: 'bracket-optimization', targetTaxBracket: rate }),
+    })),
+  ];
+  
+  const series = runs.map(run => run.results.map((_, index) => scoreResults(inputs, run.results.slice(0, index + 1))));
+  const baseline = series[0];
+  
+  // Break-even is the first year a run pulls ahead of no conversions, on the same after-tax
+  // measure, and stays ahead to the end of the horizon
+  const breakEvenOf = (afterTaxWealth: number[]) => {
+    const behind = afterTaxWealth.map((wealth, index) => wealth <= baseline[index]);
+    const lastBehind = behind.lastIndexOf(true);
+    return lastBehind === afterTaxWealth.length - 1 ? null : lastBehind + 2;
+  };
+  
+  return runs.map((run, index) => {
+    const afterTaxWealth = series[index];
+    const last = run.results[run.results.length - 1];
+    return {
+      ...run,
+      afterTaxWealth,
+      terminalWealth: afterTaxWealth[afterTaxWealth.length - 1] ?? 0,
+      lifetimeTaxes: (last?.cumulativeTaxPaid ?? 0)
+        + run.results.reduce((total, result) => total + result.irmaaSurcharge + result.acaSubsidyLost, 0),
+      breakEvenYear: run.strategy === 'none' ? null : breakEvenOf(afterTaxWealth),
+    };
+  });
+}
+
+// Best first: most wealth, least tax, or earliest break-even (runs that never break even last)
+export function rankStrategies(comparisons: StrategyComparison[], metric: ComparisonMetric): StrategyComparison[] {
+  const key = (comparison: StrategyComparison) => {
+    if (metric === 'terminal-wealth') return -comparison.terminalWealth;
+    if (metric === 'lifetime-taxes') return comparison.lifetimeTaxes;
+    return comparison.breakEvenYear ?? Infinity;
+  };
+  return [...comparisons].sort((a, b) => key(a) - key(b) || b.terminalWealth - a.terminalWealth);
+}
+
 export function findBreakEvenYear(results: SimulationResult[]): number | null {
   for (const result of results) {
     if (result.breakEven) {
@@ -165,16 +1352,42 @@ export function calculateTotalTaxSavings(results: SimulationResult[]): number {
   return lastResult.conversionWealth - lastResult.noConversionWealth;
 }
 
+// All-in marginal rate curve for converting more in one simulated year, on top of that
+// year's other income (before the conversion the strategy chose)
+export function analyzeMarginalRates(
+  inputs: UserInputs,
+  result: SimulationResult,
+  maxConversion: number = 300000,
+  step: number = 1000
+): MarginalRatePoint[] {
+  const taxpayerAges = result.taxpayerAges;
+  const widowed = isJointFiling(inputs.filingStatus) && taxpayerAges.length === 1;
+  const irmaaEnrollees = taxpayerAges.filter(age => age + IRMAA_LOOKBACK_YEARS >= MEDICARE_ELIGIBILITY_AGE).length;
+  return calcMarginalRateCurve(
+    result.baseIncome,
+    yearTaxContext(inputs, result.year, result.taxYear, taxpayerAges),
+    maxConversion,
+    step,
+    irmaaEnrollees,
+    yearBenchmarkPremium(inputs, result.year, taxpayerAges, result.isRetired),
+    Math.max(1, inputs.householdSize - (widowed ? 1 : 0))
+  );
+}
+
 // New function to analyze if conversion makes sense for bracket optimization
 export function analyzeBracketOptimization(
   currentIncome: number,
   traditionalBalance: number,
   targetBracket: number,
-  filingStatus: 'single' | 'mfj',
-  yearlyIncomes?: number[]
+  filingStatus: FilingStatus,
+  yearlyIncomes?: number[],
+  startYear: number = LATEST_TAX_YEAR,
+  taxInflationRate: number = DEFAULT_TAX_INFLATION_RATE
 ): { shouldConvert: boolean; recommendedAmount: number; reasoning: string; yearlyRecommendations?: Array<{year: number, income: number, recommendedAmount: number}> } {
-  const brackets = getBrackets(filingStatus);
-  const currentBracket = calcMarginalTaxRate(currentIncome, brackets);
+  // Bracket caps are on taxable income, so room is measured from income less the standard deduction
+  const brackets = getBrackets(filingStatus, startYear, taxInflationRate);
+  const deduction = getStandardDeduction(filingStatus, startYear, taxInflationRate);
+  const currentBracket = calcMarginalTaxRate(currentIncome, brackets, filingStatus, startYear, taxInflationRate, deduction);
   
   // If we have yearly incomes, analyze the full scenario
   if (yearlyIncomes && yearlyIncomes.length > 0) {
@@ -183,14 +1396,16 @@ export function analyzeBracketOptimization(
     
     for (let year = 0; year < Math.min(10, yearlyIncomes.length); year++) {
       const yearIncome = yearlyIncomes[year];
-      const yearBracket = calcMarginalTaxRate(yearIncome, brackets);
+      const yearBrackets = getBrackets(filingStatus, startYear + year, taxInflationRate);
+      const yearDeduction = getStandardDeduction(filingStatus, startYear + year, taxInflationRate);
+      const yearBracket = calcMarginalTaxRate(yearIncome, yearBrackets, filingStatus, startYear + year, taxInflationRate, yearDeduction);
       
       // Only recommend conversions if we're at or below target bracket
       if (yearBracket <= targetBracket) {
         // Find room in the target bracket
-        for (const bracket of brackets) {
+        for (const bracket of yearBrackets) {
           if (bracket.rate === targetBracket && bracket.cap) {
-            const roomInBracket = bracket.cap - yearIncome;
+            const roomInBracket = bracket.cap + yearDeduction - yearIncome;
             const recommendedAmount = Math.min(roomInBracket, traditionalBalance - totalRecommended);
             
             if (recommendedAmount > 0) {
@@ -222,7 +1437,7 @@ export function analyzeBracketOptimization(
   if (currentBracket <= targetBracket) {
     for (const bracket of brackets) {
       if (bracket.rate > currentBracket && bracket.cap) {
-        const roomInBracket = bracket.cap - currentIncome;
+        const roomInBracket = bracket.cap + deduction - currentIncome;
         const recommendedAmount = Math.min(roomInBracket, traditionalBalance);
         return {
           shouldConvert: recommendedAmount > 0,
@@ -242,7 +1457,7 @@ export function analyzeBracketOptimization(
   
   // If above target bracket, convert to get down to target bracket
   let conversionAmount = 0;
-  let testIncome = currentIncome;
+  let testIncome = currentIncome - deduction;
   
   for (const bracket of brackets) {
     if (bracket.rate <= targetBracket && bracket.cap) {
@@ -265,10 +1480,12 @@ export function analyzeBracketOptimization(
 export function analyzeTaxBrackets(
   currentIncome: number,
   traditionalBalance: number,
-  filingStatus: 'single' | 'mfj'
+  filingStatus: FilingStatus,
+  taxYear: number = LATEST_TAX_YEAR,
+  taxInflationRate: number = DEFAULT_TAX_INFLATION_RATE
 ): Array<{ bracket: number; rate: number; maxIncome: number; roomInBracket: number; suggestedConversion: number }> {
-  const brackets = getBrackets(filingStatus);
-  const standardDeduction = getStandardDeduction(filingStatus);
+  const brackets = getBrackets(filingStatus, taxYear, taxInflationRate);
+  const standardDeduction = getStandardDeduction(filingStatus, taxYear, taxInflationRate);
   const taxableIncome = Math.max(0, currentIncome - standardDeduction);
   const analysis = [];
   
@@ -0,0 +1,337 @@
+import { TaxBracket, StateTaxTable, FilingStatus } from '../types';
+import { calcMarginalTax } from './taxEngine';
+
+function stateBrackets(rows: Array<[number | null, number]>): TaxBracket[] {
+  return rows.map(([cap, rate]) => ({
+    rate,
+    cap,
+    label: `${(rate * 100).toFixed(2).replace(/\.?0+$/, '')}%`
+  }));
+}
+
+function flat(rate: number): { single: TaxBracket[]; mfj: TaxBracket[] } {
+  const brackets = stateBrackets([[null, rate]]);
+  return { single: brackets, mfj: brackets };
+}
+
+// Same rates for both statuses
+function shared(rows: Array<[number | null, number]>): { single: TaxBracket[]; mfj: TaxBracket[] } {
+  const brackets = stateBrackets(rows);
+  return { single: brackets, mfj: brackets };
+}
+
+// Joint thresholds are double the single thresholds
+function doubled(rows: Array<[number | null, number]>): { single: TaxBracket[]; mfj: TaxBracket[] } {
+  return {
+    single: stateBrackets(rows),
+    mfj: stateBrackets(rows.map(([cap, rate]) => [cap === null ? null : cap * 2, rate]))
+  };
+}
+
+const NO_INCOME_TAX = { single: [], mfj: [] };
+const NO_DEDUCTION = { single: 0, mfj: 0 };
+const FEDERAL_DEDUCTION = { single: 15750, mfj: 31500 };
+
+// 2025 state income tax tables. Local/city taxes are not modeled.
+// retirementExclusion is per eligible person and applies to IRA, pension and conversion income.
+// Social Security is exempt unless taxesSocialSecurity is set; income-based SS subtractions are not modeled.
+export const STATE_TAX_TABLES: Record<string, StateTaxTable> = {
+  AL: {
+    name: 'Alabama',
+    brackets: { single: stateBrackets([[500, 0.02], [3000, 0.04], [null, 0.05]]), mfj: stateBrackets([[1000, 0.02], [6000, 0.04], [null, 0.05]]) },
+    standardDeduction: { single: 3000, mfj: 8500 },
+    retirementExclusion: { amount: 6000, minAge: 65 },
+  },
+  AK: { name: 'Alaska', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  AZ: { name: 'Arizona', brackets: flat(0.025), standardDeduction: FEDERAL_DEDUCTION },
+  AR: {
+    name: 'Arkansas',
+    brackets: shared([[5499, 0], [10899, 0.02], [15599, 0.03], [25699, 0.034], [null, 0.039]]),
+    standardDeduction: { single: 2410, mfj: 4820 },
+    retirementExclusion: { amount: 6000, minAge: 59 },
+  },
+  CA: {
+    name: 'California',
+    brackets: doubled([[11079, 0.01], [26264, 0.02], [41452, 0.04], [57542, 0.06], [72724, 0.08], [371479, 0.093], [445771, 0.103], [742953, 0.113], [null, 0.123]]),
+    standardDeduction: { single: 5706, mfj: 11412 },
+  },
+  CO: {
+    name: 'Colorado',
+    brackets: flat(0.044),
+    standardDeduction: FEDERAL_DEDUCTION,
+    retirementExclusion: { amount: 24000, minAge: 65 },
+  },
+  CT: {
+    name: 'Connecticut',
+    brackets: doubled([[10000, 0.02], [50000, 0.045], [100000, 0.055], [200000, 0.06], [250000, 0.065], [500000, 0.069], [null, 0.0699]]),
+    standardDeduction: { single: 15000, mfj: 24000 },
+  },
+  DE: {
+    name: 'Delaware',
+    brackets: shared([[2000, 0], [5000, 0.022], [10000, 0.039], [20000, 0.048], [25000, 0.052], [60000, 0.0555], [null, 0.066]]),
+    standardDeduction: { single: 3250, mfj: 6500 },
+    retirementExclusion: { amount: 12500, minAge: 60 },
+  },
+  DC: {
+    name: 'District of Columbia',
+    brackets: shared([[10000, 0.04], [40000, 0.06], [60000, 0.065], [250000, 0.085], [500000, 0.0925], [1000000, 0.0975], [null, 0.1075]]),
+    standardDeduction: FEDERAL_DEDUCTION,
+  },
+  FL: { name: 'Florida', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  GA: {
+    name: 'Georgia',
+    brackets: flat(0.0519),
+    standardDeduction: { single: 12000, mfj: 24000 },
+    retirementExclusion: { amount: 65000, minAge: 65 },
+  },
+  HI: {
+    name: 'Hawaii',
+    brackets: doubled([[9600, 0.014], [14400, 0.032], [19200, 0.055], [24000, 0.064], [36000, 0.068], [48000, 0.072], [125000, 0.076], [175000, 0.079], [225000, 0.0825], [275000, 0.09], [325000, 0.10], [null, 0.11]]),
+    standardDeduction: { single: 4400, mfj: 8800 },
+  },
+  ID: { name: 'Idaho', brackets: flat(0.053), standardDeduction: FEDERAL_DEDUCTION },
+  IL: {
+    name: 'Illinois',
+    brackets: flat(0.0495),
+    standardDeduction: { single: 2850, mfj: 5700 },
+    exemptsRetirementIncome: true,
+  },
+  IN: { name: 'Indiana', brackets: flat(0.03), standardDeduction: { single: 1000, mfj: 2000 } },
+  IA: {
+    name: 'Iowa',
+    brackets: flat(0.038),
+    standardDeduction: NO_DEDUCTION,
+    exemptsRetirementIncome: true,
+  },
+  KS: {
+    name: 'Kansas',
+    brackets: doubled([[23000, 0.052], [null, 0.0558]]),
+    standardDeduction: { single: 3605, mfj: 8240 },
+  },
+  KY: {
+    name: 'Kentucky',
+    brackets: flat(0.04),
+    standardDeduction: { single: 3270, mfj: 3270 },
+    retirementExclusion: { amount: 31110, minAge: 0 },
+  },
+  LA: {
+    name: 'Louisiana',
+    brackets: flat(0.03),
+    standardDeduction: { single: 12500, mfj: 25000 },
+    retirementExclusion: { amount: 12000, minAge: 65 },
+  },
+  ME: {
+    name: 'Maine',
+    brackets: doubled([[26800, 0.058], [63450, 0.0675], [null, 0.0715]]),
+    standardDeduction: FEDERAL_DEDUCTION,
+    retirementExclusion: { amount: 45864, minAge: 0 },
+  },
+  MD: {
+    name: 'Maryland',
+    brackets: {
+      single: stateBrackets([[1000, 0.02], [2000, 0.03], [3000, 0.04], [100000, 0.0475], [125000, 0.05], [150000, 0.0525], [250000, 0.055], [500000, 0.0575], [1000000, 0.0625], [null, 0.065]]),
+      mfj: stateBrackets([[1000, 0.02], [2000, 0.03], [3000, 0.04], [150000, 0.0475], [175000, 0.05], [225000, 0.0525], [300000, 0.055], [600000, 0.0575], [1200000, 0.0625], [null, 0.065]]),
+    },
+    standardDeduction: { single: 3350, mfj: 6700 },
+  },
+  MA: {
+    name: 'Massachusetts',
+    brackets: shared([[1083150, 0.05], [null, 0.09]]),
+    standardDeduction: { single: 4400, mfj: 8800 },
+  },
+  MI: { name: 'Michigan', brackets: flat(0.0425), standardDeduction: { single: 5800, mfj: 11600 } },
+  MN: {
+    name: 'Minnesota',
+    brackets: {
+      single: stateBrackets([[32570, 0.0535], [106990, 0.068], [198630, 0.0785], [null, 0.0985]]),
+      mfj: stateBrackets([[47620, 0.0535], [189180, 0.068], [330410, 0.0785], [null, 0.0985]]),
+    },
+    standardDeduction: { single: 14950, mfj: 29900 },
+    taxesSocialSecurity: true,
+  },
+  MS: {
+    name: 'Mississippi',
+    brackets: shared([[10000, 0], [null, 0.044]]),
+    standardDeduction: { single: 2300, mfj: 4600 },
+    exemptsRetirementIncome: true,
+  },
+  MO: {
+    name: 'Missouri',
+    brackets: shared([[1313, 0], [2626, 0.02], [3939, 0.025], [5252, 0.03], [6565, 0.035], [7878, 0.04], [9191, 0.045], [null, 0.047]]),
+    standardDeduction: FEDERAL_DEDUCTION,
+    retirementExclusion: { amount: 6000, minAge: 62 },
+  },
+  MT: {
+    name: 'Montana',
+    brackets: doubled([[21100, 0.047], [null, 0.059]]),
+    standardDeduction: FEDERAL_DEDUCTION,
+    retirementExclusion: { amount: 5660, minAge: 65 },
+    taxesSocialSecurity: true,
+  },
+  NE: {
+    name: 'Nebraska',
+    brackets: doubled([[4030, 0.0246], [24120, 0.0351], [38870, 0.0501], [null, 0.052]]),
+    standardDeduction: { single: 8600, mfj: 17200 },
+  },
+  NV: { name: 'Nevada', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  NH: { name: 'New Hampshire', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  NJ: {
+    name: 'New Jersey',
+    brackets: {
+      single: stateBrackets([[20000, 0.014], [35000, 0.0175], [40000, 0.035], [75000, 0.05525], [500000, 0.0637], [1000000, 0.0897], [null, 0.1075]]),
+      mfj: stateBrackets([[20000, 0.014], [50000, 0.0175], [70000, 0.0245], [80000, 0.035], [150000, 0.05525], [500000, 0.0637], [1000000, 0.0897], [null, 0.1075]]),
+    },
+    standardDeduction: { single: 1000, mfj: 2000 },
+    retirementExclusion: { amount: 50000, minAge: 62 },
+  },
+  NM: {
+    name: 'New Mexico',
+    brackets: {
+      single: stateBrackets([[5500, 0.015], [16500, 0.032], [33500, 0.043], [66500, 0.047], [210000, 0.049], [null, 0.059]]),
+      mfj: stateBrackets([[8000, 0.015], [25000, 0.032], [50000, 0.043], [100000, 0.047], [315000, 0.049], [null, 0.059]]),
+    },
+    standardDeduction: FEDERAL_DEDUCTION,
+    retirementExclusion: { amount: 8000, minAge: 65 },
+  },
+  NY: {
+    name: 'New York',
+    brackets: {
+      single: stateBrackets([[8500, 0.04], [11700, 0.045], [13900, 0.0525], [80650, 0.055], [215400, 0.06], [1077550, 0.0685], [5000000, 0.0965], [25000000, 0.103], [null, 0.109]]),
+      mfj: stateBrackets([[17150, 0.04], [23600, 0.045], [27900, 0.0525], [161550, 0.055], [323200, 0.06], [2155350, 0.0685], [5000000, 0.0965], [25000000, 0.103], [null, 0.109]]),
+    },
+    standardDeduction: { single: 8000, mfj: 16050 },
+    // $20,000 pension and annuity exclusion from age 59½
+    retirementExclusion: { amount: 20000, minAge: 59.5 },
+  },
+  NC: { name: 'North Carolina', brackets: flat(0.0425), standardDeduction: { single: 12750, mfj: 25500 } },
+  ND: {
+    name: 'North Dakota',
+    brackets: {
+      single: stateBrackets([[48475, 0], [244825, 0.0195], [null, 0.025]]),
+      mfj: stateBrackets([[80975, 0], [298075, 0.0195], [null, 0.025]]),
+    },
+    standardDeduction: FEDERAL_DEDUCTION,
+  },
+  OH: {
+    name: 'Ohio',
+    brackets: shared([[26050, 0], [100000, 0.0275], [null, 0.03125]]),
+    standardDeduction: NO_DEDUCTION,
+  },
+  OK: {
+    name: 'Oklahoma',
+    brackets: doubled([[1000, 0.0025], [2500, 0.0075], [3750, 0.0175], [4900, 0.0275], [7200, 0.0375], [null, 0.0475]]),
+    standardDeduction: { single: 6350, mfj: 12700 },
+    retirementExclusion: { amount: 10000, minAge: 0 },
+  },
+  OR: {
+    name: 'Oregon',
+    brackets: doubled([[4400, 0.0475], [11050, 0.0675], [125000, 0.0875], [null, 0.099]]),
+    standardDeduction: { single: 2835, mfj: 5670 },
+  },
+  PA: {
+    name: 'Pennsylvania',
+    brackets: flat(0.0307),
+    standardDeduction: NO_DEDUCTION,
+    exemptsRetirementIncome: true,
+  },
+  RI: {
+    name: 'Rhode Island',
+    brackets: shared([[79900, 0.0375], [181650, 0.0475], [null, 0.0599]]),
+    standardDeduction: { single: 10900, mfj: 21800 },
+    retirementExclusion: { amount: 50000, minAge: 67 },
+  },
+  SC: {
+    name: 'South Carolina',
+    brackets: shared([[3560, 0], [17830, 0.03], [null, 0.062]]),
+    standardDeduction: FEDERAL_DEDUCTION,
+    retirementExclusion: { amount: 15000, minAge: 65 },
+  },
+  SD: { name: 'South Dakota', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  TN: { name: 'Tennessee', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  TX: { name: 'Texas', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  UT: { name: 'Utah', brackets: flat(0.045), standardDeduction: NO_DEDUCTION, taxesSocialSecurity: true },
+  VT: {
+    name: 'Vermont',
+    brackets: {
+      single: stateBrackets([[47900, 0.0335], [116000, 0.066], [242000, 0.076], [null, 0.0875]]),
+      mfj: stateBrackets([[79950, 0.0335], [193300, 0.066], [294600, 0.076], [null, 0.0875]]),
+    },
+    standardDeduction: { single: 7400, mfj: 14850 },
+    taxesSocialSecurity: true,
+  },
+  VA: {
+    name: 'Virginia',
+    brackets: shared([[3000, 0.02], [5000, 0.03], [17000, 0.05], [null, 0.0575]]),
+    standardDeduction: { single: 8500, mfj: 17000 },
+    retirementExclusion: { amount: 12000, minAge: 65 },
+  },
+  WA: { name: 'Washington', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+  WV: {
+    name: 'West Virginia',
+    brackets: shared([[10000, 0.0222], [25000, 0.0296], [40000, 0.0333], [60000, 0.0444], [null, 0.0482]]),
+    standardDeduction: { single: 2000, mfj: 4000 },
+    retirementExclusion: { amount: 8000, minAge: 65 },
+  },
+  WI: {
+    name: 'Wisconsin',
+    brackets: {
+      single: stateBrackets([[14680, 0.035], [29370, 0.044], [323290, 0.053], [null, 0.0765]]),
+      mfj: stateBrackets([[19580, 0.035], [39150, 0.044], [431060, 0.053], [null, 0.0765]]),
+    },
+    standardDeduction: { single: 13560, mfj: 25110 },
+    retirementExclusion: { amount: 5000, minAge: 65 },
+  },
+  WY: { name: 'Wyoming', brackets: NO_INCOME_TAX, standardDeduction: NO_DEDUCTION },
+};
+
+export const DEFAULT_STATE_CODE = 'NY';
+
+// States tax joint filers (and surviving spouses) on the joint schedule, everyone else on the single one
+function stateSchedule(filingStatus: FilingStatus): 'single' | 'mfj' {
+  return filingStatus === 'mfj' || filingStatus === 'qss' ? 'mfj' : 'single';
+}
+
+export function getStateTaxTable(stateCode: string): StateTaxTable {
+  return STATE_TAX_TABLES[stateCode] || STATE_TAX_TABLES[DEFAULT_STATE_CODE];
+}
+
+export function getStateBrackets(stateCode: string, filingStatus: FilingStatus): TaxBracket[] {
+  return getStateTaxTable(stateCode).brackets[stateSchedule(filingStatus)];
+}
+
+// Portion of retirement-account and pension income the state excludes from tax
+export function calcStateRetirementExclusion(
+  stateCode: string,
+  retirementIncome: number,
+  ages: number[]
+): number {
+  const table = getStateTaxTable(stateCode);
+  if (table.exemptsRetirementIncome) {
+    return retirementIncome;
+  }
+  if (!table.retirementExclusion) {
+    return 0;
+  }
+  const { amount, minAge } = table.retirementExclusion;
+  const eligiblePeople = ages.filter(age => age >= minAge).length;
+  return Math.min(retirementIncome, amount * eligiblePeople);
+}
+
+export function calcStateTax(
+  income: number,
+  stateCode: string,
+  filingStatus: FilingStatus,
+  retirementIncome: number = 0,
+  ages: number[] = [],
+  taxableSocialSecurity: number = 0
+): number {
+  const table = getStateTaxTable(stateCode);
+  const schedule = stateSchedule(filingStatus);
+  const brackets = table.brackets[schedule];
+  if (brackets.length === 0) return 0;
+
+  const exclusion = calcStateRetirementExclusion(stateCode, Math.min(retirementIncome, income), ages);
+  const socialSecurity = table.taxesSocialSecurity ? taxableSocialSecurity : 0;
+  const taxableIncome = Math.max(0, income + socialSecurity - exclusion - table.standardDeduction[schedule]);
+  return calcMarginalTax(taxableIncome, brackets);
+}
@@ -1,63 +1,366 @@
-import { TaxBracket } from '../types';
-
-// 2025 Federal Tax Brackets (Married Filing Jointly)
-export const MFJ_BRACKETS: TaxBracket[] = [
-  { rate: 0.10, cap: 22000, label: '10%' },
-  { rate: 0.12, cap: 89450, label: '12%' },
-  { rate: 0.22, cap: 190750, label: '22%' },
-  { rate: 0.24, cap: 364200, label: '24%' },
-  { rate: 0.32, cap: 462500, label: '32%' },
-  { rate: 0.35, cap: 693750, label: '35%' },
-  { rate: 0.37, cap: null, label: '37%' },
-];
-
-// 2025 Federal Tax Brackets (Single)
-export const SINGLE_BRACKETS: TaxBracket[] = [
-  { rate: 0.10, cap: 11000, label: '10%' },
-  { rate: 0.12, cap: 44725, label: '12%' },
-  { rate: 0.22, cap: 95375, label: '22%' },
-  { rate: 0.24, cap: 182100, label: '24%' },
-  { rate: 0.32, cap: 231250, label: '32%' },
-  { rate: 0.35, cap: 346875, label: '35%' },
-  { rate: 0.37, cap: null, label: '37%' },
-];
-
-// New York State Tax Rate (2024-2025)
-export const NY_STATE_TAX_RATE = 0.0685; // 6.85% for most income levels
-
-// 2025 Standard Deductions
-export const STANDARD_DEDUCTIONS = {
-  single: 14600,
-  mfj: 29200
+import { TaxBracket, TaxYearTable, FilingStatus, TaxContext, IncomeComponents, ItemizedDeductions, TaxLaw, TaxLawScenario } from '../types';
+import { calcStateTax } from './stateTax';
+
+const CURRENT_LAW_RATES = [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+const PRE_TCJA_RATES = [0.10, 0.15, 0.25, 0.28, 0.33, 0.35, 0.396];
+
+function makeBrackets(caps: number[], rates: number[] = CURRENT_LAW_RATES): TaxBracket[] {
+  return rates.map((rate, i) => ({
+    rate,
+    cap: i < caps.length ? caps[i] : null,
+    label: `${Math.round(rate * 100)}%`
+  }));
+}
+
+function makeCapitalGainsBrackets([zeroCap, fifteenCap]: number[]): TaxBracket[] {
+  return [
+    { rate: 0, cap: zeroCap, label: '0%' },
+    { rate: 0.15, cap: fifteenCap, label: '15%' },
+    { rate: 0.20, cap: null, label: '20%' },
+  ];
+}
+
+// Qualifying surviving spouses use the joint brackets and standard deduction
+function makeTaxYearTable(
+  caps: Record<Exclude<FilingStatus, 'qss'>, number[]>,
+  standardDeductions: Record<Exclude<FilingStatus, 'qss'>, number>,
+  capitalGainsCaps: Record<Exclude<FilingStatus, 'qss'>, number[]>,
+  additionalDeduction65: { married: number; unmarried: number },
+  rates: number[] = CURRENT_LAW_RATES
+): TaxYearTable {
+  return {
+    brackets: {
+      single: makeBrackets(caps.single, rates),
+      mfj: makeBrackets(caps.mfj, rates),
+      mfs: makeBrackets(caps.mfs, rates),
+      hoh: makeBrackets(caps.hoh, rates),
+      qss: makeBrackets(caps.mfj, rates),
+    },
+    standardDeductions: { ...standardDeductions, qss: standardDeductions.mfj },
+    capitalGainsBrackets: {
+      single: makeCapitalGainsBrackets(capitalGainsCaps.single),
+      mfj: makeCapitalGainsBrackets(capitalGainsCaps.mfj),
+      mfs: makeCapitalGainsBrackets(capitalGainsCaps.mfs),
+      hoh: makeCapitalGainsBrackets(capitalGainsCaps.hoh),
+      qss: makeCapitalGainsBrackets(capitalGainsCaps.mfj),
+    },
+    additionalDeduction65,
+    personalExemption: 0,
+    saltCapped: true,
+    seniorDeduction: true,
+  };
+}
+
+// Published federal tax tables (IRS Rev. Procs.), keyed by tax year
+export const FEDERAL_TAX_TABLES: Record<number, TaxYearTable> = {
+  2023: makeTaxYearTable(
+    {
+      single: [11000, 44725, 95375, 182100, 231250, 578125],
+      mfj: [22000, 89450, 190750, 364200, 462500, 693750],
+      mfs: [11000, 44725, 95375, 182100, 231250, 346875],
+      hoh: [15700, 59850, 95350, 182100, 231250, 578100],
+    },
+    { single: 13850, mfj: 27700, mfs: 13850, hoh: 20800 },
+    { single: [44625, 492300], mfj: [89250, 553850], mfs: [44625, 276900], hoh: [59750, 523050] },
+    { married: 1500, unmarried: 1850 }
+  ),
+  2024: makeTaxYearTable(
+    {
+      single: [11600, 47150, 100525, 191950, 243725, 609350],
+      mfj: [23200, 94300, 201050, 383900, 487450, 731200],
+      mfs: [11600, 47150, 100525, 191950, 243725, 365600],
+      hoh: [16550, 63100, 100500, 191950, 243700, 609350],
+    },
+    { single: 14600, mfj: 29200, mfs: 14600, hoh: 21900 },
+    { single: [47025, 518900], mfj: [94050, 583750], mfs: [47025, 291850], hoh: [63000, 551350] },
+    { married: 1550, unmarried: 1950 }
+  ),
+  2025: makeTaxYearTable(
+    {
+      single: [11925, 48475, 103350, 197300, 250525, 626350],
+      mfj: [23850, 96950, 206700, 394600, 501050, 751600],
+      mfs: [11925, 48475, 103350, 197300, 250525, 375800],
+      hoh: [17000, 64850, 103350, 197300, 250500, 626350],
+    },
+    { single: 15750, mfj: 31500, mfs: 15750, hoh: 23625 },
+    { single: [48350, 533400], mfj: [96700, 600050], mfs: [48350, 300000], hoh: [64750, 566700] },
+    { married: 1600, unmarried: 2000 }
+  ),
+  2026: makeTaxYearTable(
+    {
+      single: [12400, 50400, 105700, 201775, 256225, 640600],
+      mfj: [24800, 100800, 211400, 403550, 512450, 768700],
+      mfs: [12400, 50400, 105700, 201775, 256225, 384350],
+      hoh: [17700, 67450, 105700, 201750, 256200, 640600],
+    },
+    { single: 16100, mfj: 32200, mfs: 16100, hoh: 24150 },
+    { single: [49450, 545500], mfj: [98900, 613700], mfs: [49450, 306850], hoh: [66200, 579600] },
+    { married: 1650, unmarried: 2050 }
+  ),
+};
+
+export const FILING_STATUSES: FilingStatus[] = ['single', 'mfj', 'mfs', 'hoh', 'qss'];
+
+export const FILING_STATUS_LABELS: Record<FilingStatus, string> = {
+  single: 'Single',
+  mfj: 'Married Filing Jointly',
+  mfs: 'Married Filing Separately',
+  hoh: 'Head of Household',
+  qss: 'Qualifying Surviving Spouse',
+};
+
+export const TAX_LAW_SCENARIO_LABELS: Record<TaxLawScenario, string> = {
+  'current-law': 'Current Law',
+  'tcja-sunset': 'TCJA Sunset (pre-2018 brackets)',
+  custom: 'Custom Table',
+};
+
+export const EARLIEST_TAX_YEAR = 2023;
+export const LATEST_TAX_YEAR = 2026;
+
+// Default annual inflation used to project thresholds past the latest published year
+export const DEFAULT_TAX_INFLATION_RATE = 0.025;
+
+// IRS rounds inflation-adjusted thresholds down to the nearest $50
+function indexAmount(amount: number, factor: number): number {
+  return Math.floor((amount * factor) / 50) * 50;
+}
+
+function indexTable(table: TaxYearTable, factor: number): TaxYearTable {
+  const indexBrackets = (brackets: TaxBracket[]): TaxBracket[] =>
+    brackets.map(bracket => ({
+      ...bracket,
+      cap: bracket.cap === null ? null : indexAmount(bracket.cap, factor)
+    }));
+  
+  const brackets = {} as Record<FilingStatus, TaxBracket[]>;
+  const standardDeductions = {} as Record<FilingStatus, number>;
+  const capitalGainsBrackets = {} as Record<FilingStatus, TaxBracket[]>;
+  for (const status of FILING_STATUSES) {
+    brackets[status] = indexBrackets(table.brackets[status]);
+    standardDeductions[status] = indexAmount(table.standardDeductions[status], factor);
+    capitalGainsBrackets[status] = indexBrackets(table.capitalGainsBrackets[status]);
+  }
+  
+  return {
+    ...table,
+    brackets,
+    standardDeductions,
+    capitalGainsBrackets,
+    additionalDeduction65: {
+      married: indexAmount(table.additionalDeduction65.married, factor),
+      unmarried: indexAmount(table.additionalDeduction65.unmarried, factor),
+    },
+    personalExemption: indexAmount(table.personalExemption, factor),
+  };
+}
+
+// 2017 law, the last year before the TCJA: seven brackets up to 39.6%, a smaller standard
+// deduction, personal exemptions, no SALT cap. Pease and exemption phase-outs are not modeled.
+const PRE_TCJA_TABLE: TaxYearTable = {
+  ...makeTaxYearTable(
+    {
+      single: [9325, 37950, 91900, 191650, 416700, 418400],
+      mfj: [18650, 75900, 153100, 233350, 416700, 470700],
+      mfs: [9325, 37950, 76550, 116675, 208350, 235350],
+      hoh: [13350, 50800, 131200, 212500, 416700, 444550],
+    },
+    { single: 6350, mfj: 12700, mfs: 6350, hoh: 9350 },
+    { single: [37950, 418400], mfj: [75900, 470700], mfs: [37950, 235350], hoh: [50800, 444550] },
+    { married: 1250, unmarried: 1550 },
+    PRE_TCJA_RATES
+  ),
+  personalExemption: 4050,
+  saltCapped: false,
+  seniorDeduction: false,
 };
 
-export function getBrackets(filingStatus: 'single' | 'mfj'): TaxBracket[] {
-  return filingStatus === 'single' ? SINGLE_BRACKETS : MFJ_BRACKETS;
+// Growth of the TCJA bracket thresholds from 2018 through 2025, applied on top of 2017's
+// own indexing, brings the 2017 amounts to 2025 dollars
+const PRE_TCJA_INDEX_TO_2025 = 1.28;
+const PRE_TCJA_INDEX_YEAR = 2025;
+
+function getCurrentLawTable(taxYear: number, inflationRate: number): TaxYearTable {
+  if (FEDERAL_TAX_TABLES[taxYear]) {
+    return FEDERAL_TAX_TABLES[taxYear];
+  }
+  if (taxYear < EARLIEST_TAX_YEAR) {
+    return FEDERAL_TAX_TABLES[EARLIEST_TAX_YEAR];
+  }
+  
+  // Project future years from the latest published table
+  return indexTable(FEDERAL_TAX_TABLES[LATEST_TAX_YEAR], Math.pow(1 + inflationRate, taxYear - LATEST_TAX_YEAR));
+}
+
+// A user-supplied table replaces the brackets and standard deduction for every filing status;
+// capital gains brackets and the age 65+ additions stay as under current law
+function getCustomTable(taxLaw: TaxLaw, taxYear: number, inflationRate: number): TaxYearTable {
+  const currentLaw = getCurrentLawTable(taxYear, inflationRate);
+  const customBrackets = taxLaw.customBrackets ?? [];
+  if (customBrackets.length === 0) return currentLaw;
+  
+  const factor = Math.pow(1 + inflationRate, taxYear - taxLaw.fromYear);
+  const brackets: TaxBracket[] = customBrackets.map((bracket, i) => ({
+    rate: bracket.rate,
+    cap: bracket.cap === null || i === customBrackets.length - 1 ? null : indexAmount(bracket.cap, factor),
+    label: `${Math.round(bracket.rate * 1000) / 10}%`,
+  }));
+  const standardDeduction = indexAmount(taxLaw.customStandardDeduction ?? 0, factor);
+  
+  const byStatus = <T,>(value: T) => Object.fromEntries(FILING_STATUSES.map(status => [status, value])) as Record<FilingStatus, T>;
+  return {
+    ...currentLaw,
+    brackets: byStatus(brackets),
+    standardDeductions: byStatus(standardDeduction),
+  };
+}
+
+// Tables for a tax year under a tax-law scenario; current law when no scenario is given
+// or the year is before the scenario takes effect
+export function getTaxYearTable(
+  taxYear: number,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  taxLaw?: TaxLaw
+): TaxYearTable {
+  if (!taxLaw || taxLaw.scenario === 'current-law' || taxYear < taxLaw.fromYear) {
+    return getCurrentLawTable(taxYear, inflationRate);
+  }
+  if (taxLaw.scenario === 'tcja-sunset') {
+    const yearsOut = Math.max(0, taxYear - PRE_TCJA_INDEX_YEAR);
+    return indexTable(PRE_TCJA_TABLE, PRE_TCJA_INDEX_TO_2025 * Math.pow(1 + inflationRate, yearsOut));
+  }
+  return getCustomTable(taxLaw, taxYear, inflationRate);
 }
 
-export function getStandardDeduction(filingStatus: 'single' | 'mfj'): number {
-  return STANDARD_DEDUCTIONS[filingStatus];
+export function getBrackets(
+  filingStatus: FilingStatus,
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  taxLaw?: TaxLaw
+): TaxBracket[] {
+  return getTaxYearTable(taxYear, inflationRate, taxLaw).brackets[filingStatus];
+}
+
+export function getStandardDeduction(
+  filingStatus: FilingStatus,
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  taxLaw?: TaxLaw
+): number {
+  return getTaxYearTable(taxYear, inflationRate, taxLaw).standardDeductions[filingStatus];
+}
+
+export function getCapitalGainsBrackets(
+  filingStatus: FilingStatus,
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  taxLaw?: TaxLaw
+): TaxBracket[] {
+  return getTaxYearTable(taxYear, inflationRate, taxLaw).capitalGainsBrackets[filingStatus];
+}
+
+// Extra standard deduction for each taxpayer on the return aged 65 or older
+export function getAdditionalDeduction65(
+  filingStatus: FilingStatus,
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  taxLaw?: TaxLaw
+): number {
+  const { married, unmarried } = getTaxYearTable(taxYear, inflationRate, taxLaw).additionalDeduction65;
+  return filingStatus === 'single' || filingStatus === 'hoh' ? unmarried : married;
+}
+
+// Temporary $6,000 deduction per taxpayer 65+ (2025-2028), reduced by 6% of MAGI above
+// $75,000 ($150,000 joint). Available whether or not the return itemizes; not for MFS.
+export const SENIOR_DEDUCTION = {
+  amount: 6000,
+  firstYear: 2025,
+  lastYear: 2028,
+  phaseOutRate: 0.06,
+  phaseOutStart: { single: 75000, joint: 150000 },
+};
+
+export function calcSeniorDeduction(ages: number[], filingStatus: FilingStatus, taxYear: number, magi: number): number {
+  if (filingStatus === 'mfs' || taxYear < SENIOR_DEDUCTION.firstYear || taxYear > SENIOR_DEDUCTION.lastYear) return 0;
+  const eligible = ages.filter(age => age >= 65).length;
+  if (eligible === 0) return 0;
+  const phaseOutStart = filingStatus === 'mfj' ? SENIOR_DEDUCTION.phaseOutStart.joint : SENIOR_DEDUCTION.phaseOutStart.single;
+  const reduction = Math.max(0, magi - phaseOutStart) * SENIOR_DEDUCTION.phaseOutRate;
+  return Math.max(0, SENIOR_DEDUCTION.amount - reduction) * eligible;
+}
+
+// SALT cap: $40,000 from 2025 (+1% a year through 2029), phased down by 30% of MAGI
+// above $500,000 (also +1% a year) to a $10,000 floor; $10,000 before 2025 and from 2030.
+// Married filing separately gets half of each amount.
+export function calcSaltCap(filingStatus: FilingStatus, taxYear: number, magi: number): number {
+  const share = filingStatus === 'mfs' ? 0.5 : 1;
+  const floor = 10000 * share;
+  if (taxYear < 2025 || taxYear >= 2030) return floor;
+  
+  const growth = Math.pow(1.01, taxYear - 2025);
+  const cap = Math.round(40000 * growth) * share;
+  const phaseDownStart = Math.round(500000 * growth) * share;
+  return Math.max(floor, cap - Math.max(0, magi - phaseDownStart) * 0.3);
+}
+
+export function calcItemizedDeduction(
+  itemized: ItemizedDeductions,
+  filingStatus: FilingStatus,
+  taxYear: number,
+  magi: number,
+  saltCapped: boolean = true
+): number {
+  const salt = saltCapped
+    ? Math.min(itemized.stateAndLocalTaxes, calcSaltCap(filingStatus, taxYear, magi))
+    : itemized.stateAndLocalTaxes;
+  return salt + itemized.mortgageInterest + itemized.charitableGifts;
+}
+
+// Larger of the standard deduction (with age 65+ additions) or itemized deductions,
+// plus personal exemptions and the senior deduction where the year's law has them
+export function calcDeduction(context: TaxContext, magi: number): { amount: number; itemized: boolean } {
+  const { filingStatus, taxYear, inflationRate, ages } = context;
+  const table = getTaxYearTable(taxYear, inflationRate, context.taxLaw);
+  const seniors = ages.filter(age => age >= 65).length;
+  const standard = table.standardDeductions[filingStatus]
+    + getAdditionalDeduction65(filingStatus, taxYear, inflationRate, context.taxLaw) * seniors;
+  const itemized = context.itemizedDeductions
+    ? calcItemizedDeduction(context.itemizedDeductions, filingStatus, taxYear, magi, table.saltCapped)
+    : 0;
+  const otherDeductions = table.personalExemption * ages.length
+    + (table.seniorDeduction ? calcSeniorDeduction(ages, filingStatus, taxYear, magi) : 0);
+  
+  return itemized > standard
+    ? { amount: itemized + otherDeductions, itemized: true }
+    : { amount: standard + otherDeductions, itemized: false };
 }
 
 export function calcMarginalTax(income: number, brackets: TaxBracket[]): number {
   let tax = 0;
-  let remaining = income;
+  let floor = 0;
   
+  // Caps are cumulative thresholds, so each bracket taxes only the slice above the previous cap
   for (const bracket of brackets) {
-    if (bracket.cap === null || remaining <= bracket.cap) {
-      tax += remaining * bracket.rate;
+    if (bracket.cap === null || income <= bracket.cap) {
+      tax += (income - floor) * bracket.rate;
       break;
     }
-    tax += bracket.cap * bracket.rate;
-    remaining -= bracket.cap;
+    tax += (bracket.cap - floor) * bracket.rate;
+    floor = bracket.cap;
   }
   
   return tax;
 }
 
-export function calcMarginalTaxRate(income: number, brackets: TaxBracket[], filingStatus: 'single' | 'mfj' = 'single'): number {
-  const standardDeduction = getStandardDeduction(filingStatus);
-  const taxableIncome = Math.max(0, income - standardDeduction);
+export function calcMarginalTaxRate(
+  income: number,
+  brackets: TaxBracket[],
+  filingStatus: FilingStatus = 'single',
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  deduction: number = getStandardDeduction(filingStatus, taxYear, inflationRate)
+): number {
+  const taxableIncome = Math.max(0, income - deduction);
   
   for (const bracket of brackets) {
     if (bracket.cap === null || taxableIncome <= bracket.cap) {
@@ -67,18 +370,170 @@ export function calcMarginalTaxRate(income: number, brackets: TaxBracket[], fili
   return brackets[brackets.length - 1].rate;
 }
 
-export function calcTotalTax(income: number, brackets: TaxBracket[], stateTaxRate: number = 0, filingStatus: 'single' | 'mfj' = 'single'): number {
-  const standardDeduction = getStandardDeduction(filingStatus);
+export function calcTotalTax(
+  income: number,
+  brackets: TaxBracket[],
+  stateCode: string | null = null,
+  filingStatus: FilingStatus = 'single',
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  retirementIncome: number = 0,
+  ages: number[] = []
+): number {
+  const standardDeduction = getStandardDeduction(filingStatus, taxYear, inflationRate);
   const taxableIncome = Math.max(0, income - standardDeduction);
   
   const federalTax = calcMarginalTax(taxableIncome, brackets);
-  const stateTax = income * stateTaxRate;
+  const stateTax = stateCode ? calcStateTax(income, stateCode, filingStatus, retirementIncome, ages) : 0;
   return federalTax + stateTax;
 }
 
-export function calcEffectiveTaxRate(income: number, brackets: TaxBracket[], stateTaxRate: number = 0): number {
+export function calcEffectiveTaxRate(income: number, brackets: TaxBracket[], stateCode: string | null = null): number {
   if (income === 0) return 0;
-  return calcTotalTax(income, brackets, stateTaxRate) / income;
+  return calcTotalTax(income, brackets, stateCode) / income;
+}
+
+// Provisional income thresholds for taxing Social Security (not indexed for inflation).
+// Married filing separately (living together) has no base amount.
+export const SOCIAL_SECURITY_THRESHOLDS: Record<FilingStatus, { base: number; adjustedBase: number }> = {
+  single: { base: 25000, adjustedBase: 34000 },
+  hoh: { base: 25000, adjustedBase: 34000 },
+  qss: { base: 25000, adjustedBase: 34000 },
+  mfj: { base: 32000, adjustedBase: 44000 },
+  mfs: { base: 0, adjustedBase: 0 },
+};
+
+// Taxable portion of benefits: up to 50% above the base amount, up to 85% above the adjusted base
+export function calcTaxableSocialSecurity(benefits: number, otherIncome: number, filingStatus: FilingStatus): number {
+  if (benefits <= 0) return 0;
+  const { base, adjustedBase } = SOCIAL_SECURITY_THRESHOLDS[filingStatus];
+  const provisionalIncome = otherIncome + benefits * 0.5;
+  
+  if (provisionalIncome <= base) return 0;
+  if (provisionalIncome <= adjustedBase) {
+    return Math.min(benefits * 0.5, (provisionalIncome - base) * 0.5);
+  }
+  const firstTier = Math.min(benefits * 0.5, (adjustedBase - base) * 0.5);
+  return Math.min(benefits * 0.85, (provisionalIncome - adjustedBase) * 0.85 + firstTier);
+}
+
+// Net investment income tax: 3.8% above fixed (unindexed) MAGI thresholds
+export const NIIT_RATE = 0.038;
+export const NIIT_THRESHOLDS: Record<FilingStatus, number> = {
+  single: 200000,
+  hoh: 200000,
+  mfj: 250000,
+  qss: 250000,
+  mfs: 125000,
+};
+
+function preferentialIncome(income: IncomeComponents): number {
+  return (income.qualifiedDividends ?? 0) + (income.capitalGains ?? 0);
+}
+
+// Modified AGI as used for IRMAA and NIIT: all income plus the taxable share of benefits
+export function calcMagi(income: IncomeComponents, filingStatus: FilingStatus): number {
+  const otherIncome = income.ordinaryIncome + preferentialIncome(income);
+  return otherIncome + calcTaxableSocialSecurity(income.socialSecurityBenefits ?? 0, otherIncome, filingStatus);
+}
+
+// Qualified dividends and gains fill the 0/15/20% brackets on top of ordinary taxable income
+export function calcCapitalGainsTax(ordinaryTaxableIncome: number, preferentialTaxableIncome: number, capitalGainsBrackets: TaxBracket[]): number {
+  return calcMarginalTax(ordinaryTaxableIncome + preferentialTaxableIncome, capitalGainsBrackets)
+    - calcMarginalTax(ordinaryTaxableIncome, capitalGainsBrackets);
+}
+
+export function calcNetInvestmentIncomeTax(income: IncomeComponents, magi: number, filingStatus: FilingStatus): number {
+  const netInvestmentIncome = (income.interestIncome ?? 0) + preferentialIncome(income);
+  const excessMagi = magi - NIIT_THRESHOLDS[filingStatus];
+  return Math.max(0, Math.min(netInvestmentIncome, excessMagi)) * NIIT_RATE;
+}
+
+export function addIncome(base: IncomeComponents, extra: IncomeComponents): IncomeComponents {
+  return {
+    ordinaryIncome: base.ordinaryIncome + extra.ordinaryIncome,
+    retirementIncome: base.retirementIncome + extra.retirementIncome,
+    socialSecurityBenefits: (base.socialSecurityBenefits ?? 0) + (extra.socialSecurityBenefits ?? 0),
+    interestIncome: (base.interestIncome ?? 0) + (extra.interestIncome ?? 0),
+    qualifiedDividends: (base.qualifiedDividends ?? 0) + (extra.qualifiedDividends ?? 0),
+    capitalGains: (base.capitalGains ?? 0) + (extra.capitalGains ?? 0),
+  };
+}
+
+// Federal plus state tax on a full year's income
+export function calcYearTax(income: IncomeComponents, context: TaxContext): number {
+  const { filingStatus, taxYear, inflationRate } = context;
+  const brackets = getBrackets(filingStatus, taxYear, inflationRate, context.taxLaw);
+  const preferential = preferentialIncome(income);
+  const taxableSocialSecurity = calcTaxableSocialSecurity(
+    income.socialSecurityBenefits ?? 0,
+    income.ordinaryIncome + preferential,
+    filingStatus
+  );
+  
+  // The deduction is used against ordinary income first, so preferential income sits on top
+  const magi = income.ordinaryIncome + preferential + taxableSocialSecurity;
+  const deduction = calcDeduction(context, magi).amount;
+  const taxableIncome = Math.max(0, magi - deduction);
+  const preferentialTaxable = Math.min(preferential, taxableIncome);
+  const ordinaryTaxable = taxableIncome - preferentialTaxable;
+  
+  const federalTax = calcMarginalTax(ordinaryTaxable, brackets)
+    + calcCapitalGainsTax(ordinaryTaxable, preferentialTaxable, getCapitalGainsBrackets(filingStatus, taxYear, inflationRate, context.taxLaw))
+    + calcNetInvestmentIncomeTax(income, magi, filingStatus);
+  
+  // States tax dividends and gains as ordinary income
+  const stateTax = context.stateCode
+    ? calcStateTax(income.ordinaryIncome + preferential, context.stateCode, filingStatus, income.retirementIncome, context.ages, taxableSocialSecurity)
+    : 0;
+  return federalTax + stateTax;
+}
+
+// Tax caused by stacking extra income (a conversion, an RMD) on top of the year's base income:
+// tax(base + extra) - tax(base)
+export function calcIncrementalTax(base: IncomeComponents, extra: IncomeComponents, context: TaxContext): number {
+  if (extra.ordinaryIncome <= 0 && preferentialIncome(extra) <= 0) return 0;
+  return calcYearTax(addIncome(base, extra), context) - calcYearTax(base, context);
+}
+
+// Additional tax on IRA distributions taken before age 59½
+export const EARLY_WITHDRAWAL_PENALTY_RATE = 0.10;
+export const EARLY_WITHDRAWAL_AGE = 59.5;
+
+// Tax withheld from a conversion never reaches the Roth, so it is a distribution: still taxed
+// as part of the conversion, and penalized before 59½. The withholding covers its share of the
+// tax and of its own penalty, so withheld = share * (tax + penalty rate * withheld).
+export function calcConversionWithholding(
+  conversionAmount: number,
+  conversionTax: number,
+  withholdingShare: number,
+  age: number
+): { withheld: number; penalty: number } {
+  if (conversionAmount <= 0 || withholdingShare <= 0) return { withheld: 0, penalty: 0 };
+  const penaltyRate = age < EARLY_WITHDRAWAL_AGE ? EARLY_WITHDRAWAL_PENALTY_RATE : 0;
+  const withheld = Math.min(conversionAmount, withholdingShare * conversionTax / (1 - penaltyRate * withholdingShare));
+  return { withheld, penalty: withheld * penaltyRate };
+}
+
+// Gross IRA distribution that nets a given amount after its own tax, stacked on the year's
+// income, and any early-withdrawal penalty (`penaltyRate`, blended across the accounts it
+// comes from). Found by fixed-point iteration.
+export function calcGrossUpDistribution(
+  netAmount: number,
+  income: IncomeComponents,
+  context: TaxContext,
+  penaltyRate: number = 0
+): { distribution: number; tax: number; penalty: number } {
+  const taxOn = (distribution: number) =>
+    calcIncrementalTax(income, { ordinaryIncome: distribution, retirementIncome: distribution }, context);
+  
+  let distribution = netAmount;
+  for (let i = 0; i < 50; i++) {
+    const next = netAmount + taxOn(distribution) + distribution * penaltyRate;
+    if (Math.abs(next - distribution) < 0.01) break;
+    distribution = next;
+  }
+  return { distribution, tax: taxOn(distribution), penalty: distribution * penaltyRate };
 }
 
 // Helper function to get the optimal conversion amount for a given tax bracket
@@ -87,10 +542,12 @@ export function getOptimalConversionAmount(
   traditionalBalance: number,
   brackets: TaxBracket[],
   targetBracket: number,
-  filingStatus: 'single' | 'mfj' = 'mfj'
+  filingStatus: FilingStatus = 'mfj',
+  taxYear: number = LATEST_TAX_YEAR,
+  inflationRate: number = DEFAULT_TAX_INFLATION_RATE,
+  deduction: number = getStandardDeduction(filingStatus, taxYear, inflationRate)
 ): number {
-  const standardDeduction = getStandardDeduction(filingStatus);
-  const currentBracket = calcMarginalTaxRate(currentIncome, brackets, filingStatus);
+  const currentBracket = calcMarginalTaxRate(currentIncome, brackets, filingStatus, taxYear, inflationRate, deduction);
   
   // If we're already at or below the target bracket, convert to fill the target bracket
   if (currentBracket <= targetBracket) {
@@ -98,8 +555,8 @@ export function getOptimalConversionAmount(
     for (let i = 0; i < brackets.length; i++) {
       const bracket = brackets[i];
       if (bracket.rate === targetBracket && bracket.cap) {
-        // Account for standard deduction when calculating room in bracket
-        const roomInBracket = bracket.cap + standardDeduction - currentIncome;
+        // Account for the deduction when calculating room in bracket
+        const roomInBracket = bracket.cap + deduction - currentIncome;
         return Math.min(roomInBracket, traditionalBalance);
       }
     }
@@ -113,10 +570,10 @@ export function getOptimalConversionAmount(
   
   for (const bracket of brackets) {
     if (bracket.rate <= targetBracket && bracket.cap) {
-      const roomInBracket = bracket.cap + standardDeduction - testIncome;
+      const roomInBracket = bracket.cap + deduction - testIncome;
       if (roomInBracket > 0) {
         conversionAmount += roomInBracket;
-        testIncome = bracket.cap + standardDeduction;
+        testIncome = bracket.cap + deduction;
       }
     }
   }
@@ -0,0 +1,54 @@
+import { IncomeComponents } from '../types';
+
+export interface TaxableAccountIncome {
+  qualifiedDividends: number;
+  interest: number;
+  realizedGains: number;
+}
+
+// Split a year's yield on the taxable account into its tax characters. Dividends and
+// interest come from the start-of-year balance; realized gains are a share of the
+// unrealized gain (balance above cost basis).
+export function calcTaxableAccountIncome(
+  balance: number,
+  costBasis: number,
+  qualifiedDividendYield: number,
+  interestYield: number,
+  gainRealizationRate: number
+): TaxableAccountIncome {
+  if (balance <= 0) {
+    return { qualifiedDividends: 0, interest: 0, realizedGains: 0 };
+  }
+  const unrealizedGain = Math.max(0, balance - costBasis);
+  return {
+    qualifiedDividends: balance * qualifiedDividendYield,
+    interest: balance * interestYield,
+    realizedGains: unrealizedGain * gainRealizationRate,
+  };
+}
+
+export function taxableAccountIncomeComponents(income: TaxableAccountIncome): IncomeComponents {
+  return {
+    ordinaryIncome: income.interest,
+    retirementIncome: 0,
+    interestIncome: income.interest,
+    qualifiedDividends: income.qualifiedDividends,
+    capitalGains: income.realizedGains,
+  };
+}
+
+export function totalTaxableAccountIncome(income: TaxableAccountIncome): number {
+  return income.qualifiedDividends + income.interest + income.realizedGains;
+}
+
+// Reinvested dividends, interest and realized gains all add to cost basis
+export function reinvestedBasis(costBasis: number, income: TaxableAccountIncome): number {
+  return costBasis + totalTaxableAccountIncome(income);
+}
+
+// Withdrawals (such as tax payments) take basis out pro rata with the balance
+export function basisAfterWithdrawal(balance: number, costBasis: number, withdrawal: number): number {
+  if (balance <= 0 || withdrawal <= 0) return costBasis;
+  const remainingShare = Math.max(0, 1 - withdrawal / balance);
+  return costBasis * remainingShare;
+}
@@ -0,0 +1,76 @@
+import { TaxBracket, WithdrawalOrder } from '../types';
+
+export const WITHDRAWAL_ORDER_LABELS: Record<WithdrawalOrder, string> = {
+  'taxable-first': 'Taxable first',
+  proportional: 'Proportional',
+  'bracket-fill': 'Bracket-aware fill',
+};
+
+export interface AccountBalances {
+  taxable: number;
+  traditional: number;
+  roth: number;
+}
+
+export interface Withdrawals extends AccountBalances {
+  unmet: number; // Spending no account could cover
+}
+
+// Income room left below the top of the bracket at the given rate
+export function calcBracketRoom(ordinaryIncome: number, brackets: TaxBracket[], rate: number, deduction: number): number {
+  const bracket = brackets.find(b => b.rate === rate);
+  if (!bracket || bracket.cap === null) return Infinity;
+  return Math.max(0, bracket.cap + deduction - ordinaryIncome);
+}
+
+// Split a year's spending need across accounts. Bracket-aware fill takes traditional money
+// only up to the bracket room, then Roth, then taxable, and only then more traditional.
+// `rothFirst` is Roth money (e.g., seasoned ladder conversions) taken before any order applies.
+export function planWithdrawals(
+  need: number,
+  balances: AccountBalances,
+  order: WithdrawalOrder,
+  traditionalRoom: number = Infinity,
+  rothFirst: number = 0
+): Withdrawals {
+  const withdrawals: Withdrawals = { taxable: 0, traditional: 0, roth: 0, unmet: 0 };
+  if (need <= 0) return withdrawals;
+
+  const available = {
+    taxable: Math.max(0, balances.taxable),
+    traditional: Math.max(0, balances.traditional),
+    roth: Math.max(0, balances.roth),
+  };
+  let remaining = need;
+  const take = (account: keyof AccountBalances, limit: number = Infinity) => {
+    const amount = Math.min(remaining, available[account] - withdrawals[account], limit);
+    if (amount <= 0) return;
+    withdrawals[account] += amount;
+    remaining -= amount;
+  };
+
+  take('roth', rothFirst);
+  if (order === 'proportional') {
+    const rothLeft = available.roth - withdrawals.roth;
+    const total = available.taxable + available.traditional + rothLeft;
+    if (total > 0) {
+      const share = Math.min(1, remaining / total);
+      withdrawals.taxable = available.taxable * share;
+      withdrawals.traditional = available.traditional * share;
+      withdrawals.roth += rothLeft * share;
+      remaining -= total * share;
+    }
+  } else if (order === 'bracket-fill') {
+    take('traditional', traditionalRoom);
+    take('roth');
+    take('taxable');
+    take('traditional');
+  } else {
+    take('taxable');
+    take('traditional');
+    take('roth');
+  }
+
+  withdrawals.unmet = Math.max(0, remaining);
+  return withdrawals;
+}
@@ -1,23 +1,25 @@
 'use client';
 
 import { useState } from 'react';
-import { UserInputs, SimulationResult } from './types';
-import { runSimulation } from './lib/simulation';
+import { UserInputs, SimulationRun, FilingStatus } from './types';
+import { simulateStrategy } from './lib/simulation';
 import { Inputs } from './components/Inputs';
 import { Results } from './components/Results';
 import { BracketAnalysis } from './components/BracketAnalysis';
+import { MarginalRateChart } from './components/MarginalRateChart';
+import { StrategyRanking } from './components/StrategyRanking';
 
 export default function Home() {
-  const [results, setResults] = useState<SimulationResult[]>([]);
+  const [run, setRun] = useState<SimulationRun | null>(null);
+  const results = run?.results ?? [];
   const [inputs, setInputs] = useState<UserInputs | null>(null);
-  const [filingStatus, setFilingStatus] = useState<'single' | 'mfj'>('mfj');
+  const [filingStatus, setFilingStatus] = useState<FilingStatus>('mfj');
 
   const handleSubmit = (data: UserInputs) => {
     setInputs(data);
     setFilingStatus(data.filingStatus);
     try {
-      const simulationResults = runSimulation(data);
-      setResults(simulationResults);
+      setRun(simulateStrategy(data));
     } catch (error) {
       console.error('Simulation error:', error);
     }
@@ -86,8 +88,8 @@ export default function Home() {
 
           {/* Results Panel */}
           <div className="lg:col-span-2">
-            {results.length > 0 && inputs ? (
-              <Results results={results} inputs={inputs} />
+            {run && results.length > 0 && inputs ? (
+              <Results run={run} inputs={inputs} />
             ) : (
               <div className="bg-white/80 backdrop-blur-sm rounded-3xl p-8 lg:p-12 text-center border border-gray-200/50 shadow-sm">
                 <div className="w-16 h-16 lg:w-20 lg:h-20 bg-gradient-to-br from-blue-100 to-purple-100 rounded-3xl flex items-center justify-center mx-auto mb-6 lg:mb-8">
@@ -107,14 +109,24 @@ export default function Home() {
         {/* Analysis Sections */}
         {inputs && (
           <div className="space-y-8 mb-16">
-            {/* Tax Bracket Analysis */}
-            <div>
+            {/* Tax Bracket Analysis and all-in marginal rates */}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
               <BracketAnalysis 
                 currentIncome={inputs.annualIncome}
-                traditionalBalance={inputs.traditionalBalance}
+                traditionalBalance={inputs.traditionalBalance + (inputs.filingStatus === 'mfj' || inputs.filingStatus === 'qss' ? inputs.traditionalBalance2 || 0 : 0)}
                 filingStatus={inputs.filingStatus}
+                taxYear={results[0]?.taxYear}
+                taxInflationRate={inputs.taxInflationRate}
               />
+              {results.length > 0 && (
+                <MarginalRateChart results={results} inputs={inputs} />
+              )}
             </div>
+
+            {/* Fixed strategies side by side */}
+            {results.length > 0 && (
+              <StrategyRanking inputs={inputs} />
+            )}
           </div>
         )}
 
@@ -214,7 +226,7 @@ export default function Home() {
             <div className="space-y-6">
               <div className="border-l-4 border-purple-200 pl-6">
                 <h4 className="font-bold text-gray-800 mb-2">Why do I need a retirement date?</h4>
-                <p className="text-gray-600">RMDs only apply after you retire. This helps calculate the true tax impact of required distributions.</p>
+                <p className="text-gray-600">Retirement is when your spending starts drawing on your accounts, and it can open the conversion window. RMDs start at your SECURE 2.0 age whether or not you are still working.</p>
               </div>
               <div className="border-l-4 border-purple-200 pl-6">
                 <h4 className="font-bold text-gray-800 mb-2">Is the taxable account balance required?</h4>
@@ -241,7 +253,7 @@ export default function Home() {
         {/* Footer */}
         <footer className="text-center py-8 border-t border-gray-200/50">
           <p className="text-gray-500 text-sm">
-            Tax calculations based on 2025 federal brackets and NY state tax (6.85%).
+            Tax calculations based on published federal brackets, indexed for inflation in future years, and each state&apos;s income tax brackets.
           </p>
         </footer>
       </div>
@@ -4,35 +4,289 @@ export interface TaxBracket {
   label: string;
 }
 
+// Single, Married Filing Jointly, Married Filing Separately, Head of Household, Qualifying Surviving Spouse
+export type FilingStatus = 'single' | 'mfj' | 'mfs' | 'hoh' | 'qss';
+
+export interface TaxYearTable {
+  brackets: Record<FilingStatus, TaxBracket[]>;
+  standardDeductions: Record<FilingStatus, number>;
+  capitalGainsBrackets: Record<FilingStatus, TaxBracket[]>; // 0/15/20% on qualified dividends and LTCG
+  additionalDeduction65: { married: number; unmarried: number }; // Per taxpayer aged 65+
+  personalExemption: number; // Per taxpayer; zero under current law
+  saltCapped: boolean; // Whether the SALT deduction cap applies
+  seniorDeduction: boolean; // Whether the 2025-2028 senior deduction applies
+}
+
+// Future tax-law views: keep current law, let the TCJA changes lapse back to the
+// pre-2018 tables, or supply a bracket table, each taking effect from a chosen year
+export type TaxLawScenario = 'current-law' | 'tcja-sunset' | 'custom';
+
+export interface TaxLaw {
+  scenario: TaxLawScenario;
+  fromYear: number; // First tax year the scenario's tables apply
+  customBrackets?: Array<Omit<TaxBracket, 'label'>>; // 'custom' only, in fromYear dollars
+  customStandardDeduction?: number; // 'custom' only, in fromYear dollars
+}
+
+export interface ItemizedDeductions {
+  stateAndLocalTaxes: number; // Before the SALT cap
+  mortgageInterest: number;
+  charitableGifts: number;
+}
+
+export interface YearlyItemizedDeductions extends ItemizedDeductions {
+  year: number; // Simulation year (1 = first year)
+}
+
+export interface StateTaxTable {
+  name: string;
+  brackets: Record<'single' | 'mfj', TaxBracket[]>; // Empty for states without an income tax
+  standardDeduction: Record<'single' | 'mfj', number>;
+  exemptsRetirementIncome?: boolean; // IRA, pension and conversion income fully exempt
+  taxesSocialSecurity?: boolean; // Taxes the federally taxable portion of benefits
+  retirementExclusion?: { amount: number; minAge: number }; // Per eligible person
+}
+
+// Everything about the household and year that the tax calculation depends on
+export interface TaxContext {
+  filingStatus: FilingStatus;
+  taxYear: number;
+  inflationRate: number;
+  stateCode: string | null; // null when state tax is excluded
+  ages: number[]; // Ages of the taxpayer(s) on the return
+  itemizedDeductions?: ItemizedDeductions; // Used when larger than the standard deduction
+  taxLaw?: TaxLaw; // Current law when omitted
+}
+
+export interface IncomeComponents {
+  ordinaryIncome: number; // Wages, pensions, IRA distributions and conversions
+  retirementIncome: number; // Portion of ordinaryIncome from pensions, IRAs and conversions
+  socialSecurityBenefits?: number; // Gross benefits; the taxable share depends on provisional income
+  interestIncome?: number; // Portion of ordinaryIncome that is investment interest (subject to NIIT)
+  qualifiedDividends?: number; // Taxed at capital gains rates, stacked above ordinary income
+  capitalGains?: number; // Net long-term gains, taxed like qualified dividends
+}
+
+export interface IrmaaTier {
+  magiThreshold: number; // Tier applies when lookback MAGI exceeds this
+  partBSurcharge: number; // Monthly, per enrollee
+  partDSurcharge: number; // Monthly, per enrollee
+  label: string;
+}
+
+export interface AcaContributionBand {
+  fplFrom: number; // Household income as a multiple of the poverty line
+  fplTo: number | null;
+  startRate: number; // Expected contribution as a share of income at fplFrom
+  endRate: number; // ... rising linearly to this at fplTo
+}
+
+export interface MarginalRatePoint {
+  conversionAmount: number; // Converted so far
+  marginalRate: number; // All-in cost of the next step, as a share of it
+  cumulativeCost: number; // All-in cost of converting conversionAmount
+}
+
+// Where conversion tax comes from: the taxable account, withheld from the conversion, or both
+export type ConversionTaxSource = 'taxable' | 'withheld' | 'split';
+
+// What to do when a year's taxes exceed the taxable account: sell IRA assets (grossed up for
+// their own tax), shrink the conversion to what the account can pay, or flag the plan
+export type ShortfallFallback = 'ira-gross-up' | 'cap-conversion' | 'infeasible';
+
+// Which accounts cover retirement spending: taxable first, each in proportion to its balance,
+// or traditional up to a bracket and Roth after that
+export type WithdrawalOrder = 'taxable-first' | 'proportional' | 'bracket-fill';
+
+// A ladder converts each year what spending will need five years later, once the conversion
+// can be withdrawn penalty-free
+export type ConversionStrategy = 'one-time' | 'annual' | 'bracket-optimization' | 'ladder' | 'optimal' | 'goal-seek' | 'custom';
+
+// One row of a custom schedule: a dollar amount, or a bracket to fill that year when no amount is set
+export interface CustomConversionYear {
+  year: number; // Simulation year, 1-based
+  amount?: number;
+  targetBracket?: number; // Decimal rate (e.g., 0.22)
+}
+
+// Goal-seek targets, measured at the start of the goal age: the traditional balance, the Roth
+// share of IRA money, or the first RMD that balance would require
+export type GoalSeekTarget = 'traditional-balance' | 'roth-share' | 'first-rmd';
+
+// Level converts the same amount each year; bracket fills income to the same level (in today's
+// dollars) on top of each year's actual income
+export type GoalSeekPacing = 'level' | 'bracket';
+
+export interface GoalSeekPlan {
+  schedule: number[]; // Conversion by simulation year
+  level: number; // Annual conversion, or the income level filled to (today's dollars)
+  achieved: boolean; // False when converting everything still misses the target
+  projected: number; // Target measure at the goal age
+  taxCost: number; // Conversion tax, penalties and ACA credit given up
+}
+
+// When conversions may begin and when they end; age is yours, years are simulation years
+export type ConversionWindowStart = 'now' | 'retirement' | 'age' | 'year';
+export type ConversionWindowStop = 'never' | 'age' | 'year' | 'rmd-start' | 'ss-claim';
+
+// What the optimal strategy maximizes: wealth at the end of the horizon after the tax to cash
+// out the traditional IRA, or its after-tax value to heirs
+export type OptimizationGoal = 'terminal' | 'legacy';
+
+export interface OptimalConversionPlan {
+  schedule: number[]; // Conversion by simulation year
+  goal: OptimizationGoal;
+  value: number; // After-tax terminal or legacy wealth with the schedule
+  bestHeuristic: string; // Best of the fixed strategies
+  heuristicValue: number;
+  gain: number; // Solved schedule over the best fixed strategy; negative when the fixed strategy is used
+}
+
+// How the strategy comparison orders its runs
+export type ComparisonMetric = 'terminal-wealth' | 'lifetime-taxes' | 'break-even';
+
+export interface StrategyComparison {
+  label: string;
+  strategy: ConversionStrategy | 'none';
+  results: SimulationResult[];
+  afterTaxWealth: number[]; // By year, with the traditional balance net of the tax to draw it down
+  terminalWealth: number; // Final year of afterTaxWealth
+  lifetimeTaxes: number; // Taxes, IRMAA surcharges and ACA credit lost over the horizon
+  breakEvenYear: number | null; // First year ahead of no conversions on afterTaxWealth for good
+}
+
+// A simulation together with the plan its strategy solved for, so it is solved only once
+export interface SimulationRun {
+  results: SimulationResult[];
+  schedule?: number[]; // Solved conversions by year; replays the same plan in comparison runs
+  optimalPlan?: OptimalConversionPlan;
+  goalPlan?: GoalSeekPlan;
+}
+
+// A year's conversion into the Roth. Before 59½ it can be withdrawn penalty-free only from
+// January 1 of the fifth year after the conversion.
+export interface RothConversionTranche {
+  taxYear: number;
+  seasonedTaxYear: number; // First tax year it comes out penalty-free
+  amount: number;
+  remaining: number; // Not yet withdrawn
+}
+
+// Roth basis by source; withdrawals take contributions, then conversions oldest first, then earnings
+export interface RothLedger {
+  contributions: number;
+  tranches: RothConversionTranche[];
+  firstTaxYear?: number; // Starts the five-year clock for tax-free earnings
+}
+
+export type IncomeStreamType = 'wages' | 'pension' | 'annuity' | 'rental' | 'one-off';
+
+// How a stream is taxed: ordinary income, retirement income (eligible for state retirement
+// exclusions), or long-term capital gains (e.g., selling a business)
+export type IncomeTaxCharacter = 'ordinary' | 'retirement' | 'capital-gains';
+
+export interface IncomeStream {
+  type: IncomeStreamType;
+  owner: 1 | 2; // Spouse who earns or receives it
+  amount: number; // Annual amount in the start year
+  startYear: number; // Simulation year, inclusive
+  endYear?: number; // Inclusive; open-ended when omitted. One-off streams pay only in the start year.
+  growthRate: number; // Annual raise or COLA (e.g., 0.02)
+  taxCharacter: IncomeTaxCharacter;
+}
+
 export interface UserInputs {
   age1: number;
   age2: number;
-  filingStatus: 'single' | 'mfj';
+  filingStatus: FilingStatus;
   retirementAge: number;
-  traditionalBalance: number;
+  traditionalBalance: number; // Yours
   rothBalance: number;
+  traditionalBalance2?: number; // Spouse's, for joint filers
+  rothBalance2?: number;
+  rothContributionBasis?: number; // Direct contributions in the Roth accounts; defaults to the Roth balance
   taxableBalance?: number;
-  annualIncome: number;
-  // Multi-year income support
-  yearlyIncomes: number[]; // Array of 10 years of income
-  retirementIncome: number; // Income after retirement
+  
+  // Survivor modeling for joint filers: the survivor files single from the year after the
+  // first death and treats the inherited accounts as their own
+  firstDeathYear?: number; // Simulation year of the first death
+  deceasedSpouse?: 1 | 2;
+  
+  annualIncome: number; // Current income, for years before the simulation
+  incomeStreams: IncomeStream[]; // Wages, pensions and other income by year (excluding Social Security)
+  
+  // Retirement spending, drawn from the accounts once income falls short
+  annualSpending?: number; // In today's dollars
+  spendingInflationRate?: number; // e.g., 0.025
+  withdrawalOrder: WithdrawalOrder;
+  withdrawalBracket?: number; // Bracket-fill only: top rate for traditional withdrawals (e.g., 0.12)
+  
+  // Charitable distributions and longevity annuities that shrink taxable RMDs
+  annualQcd?: number; // Qualified charitable distributions per year after 70½, in today's dollars
+  qlacAmount?: number; // QLAC premium paid from your traditional IRA
+  qlacPurchaseAge?: number; // Your age at purchase
+  qlacIncomeStartAge?: number; // Your age when payments begin (85 at the latest)
+  qlacAnnualIncome?: number; // Quoted annual income once payments begin
+  
+  // Heirs inheriting whatever is left, who must empty inherited IRAs within 10 years
+  heirIncome?: number; // Each heir's own taxable income, in today's dollars
+  heirFilingStatus?: FilingStatus;
+  heirCount?: number; // Accounts are split evenly between heirs
+  
+  // Social Security, per spouse
+  socialSecurityBenefit1: number; // Annual benefit at claiming age, in today's dollars
+  socialSecurityClaimingAge1: number;
+  socialSecurityBenefit2: number;
+  socialSecurityClaimingAge2: number;
+  
+  // ACA marketplace coverage for retired years before Medicare
+  householdSize: number;
+  acaBenchmarkPremium?: number; // Annual benchmark silver premium for the household, in today's dollars
   
   // Conversion strategy - only one should be active
-  conversionStrategy: 'one-time' | 'annual' | 'bracket-optimization';
+  conversionStrategy: ConversionStrategy;
   
   // Strategy-specific parameters
   oneTimeConversionAmount?: number; // For one-time strategy only
   annualConversionAmount?: number; // For annual strategy only
   targetTaxBracket?: number; // For bracket-optimization strategy only
+  irmaaTierLimit?: number; // Bracket optimization: highest IRMAA tier index allowed (0 = standard premium)
+  acaFplLimit?: number; // Bracket optimization: keep ACA household income at or below this percent of FPL
+  optimizationGoal?: OptimizationGoal; // Optimal strategy only; defaults to terminal wealth
+  goalTarget?: GoalSeekTarget; // Goal-seek strategy only
+  goalValue?: number; // Dollars, or a share for the Roth target (e.g., 0.6)
+  goalAge?: number; // Your age by which the target is met
+  goalPacing?: GoalSeekPacing;
+  customConversions?: CustomConversionYear[]; // Custom strategy only; years without a row convert nothing
+  gapYearMode?: boolean; // Bracket optimization: also convert in retired years, sized to that year's actual income
+  
+  // Conversion window, applied to every strategy
+  conversionStart?: ConversionWindowStart; // Defaults to now
+  conversionStartValue?: number; // Age or year, inclusive
+  conversionStop?: ConversionWindowStop; // Defaults to never
+  conversionStopValue?: number; // Age or year, exclusive
+  conversionTaxSource: ConversionTaxSource;
+  conversionWithholdingShare?: number; // 'split' only: share of the conversion tax withheld (e.g., 0.5)
+  shortfallFallback: ShortfallFallback;
   
   // Legacy field for backward compatibility - will be removed
   conversionPercentage: number;
   
   expectedReturn?: number | string; // Can be string from form, transformed to number
   taxableYield?: number | string; // Can be string from form, transformed to number
+  taxableCostBasis?: number; // Defaults to the taxable balance
+  qualifiedDividendYield: number; // Share of taxable balance paid as qualified dividends (e.g., 0.015)
+  interestYield: number; // Share of taxable balance paid as interest
+  gainRealizationRate: number; // Share of unrealized gains realized each year
   simulationYears: number;
-  stateTaxRate: number; // Stored as percentage (e.g., 6.85 for 6.85%)
+  stateCode: string; // Two-letter postal code (e.g., 'NY')
   enableStateTax: boolean;
+  itemizedDeductions: YearlyItemizedDeductions[]; // Years not listed take the standard deduction
+  taxLaw: TaxLaw; // Tax-law scenario used for the main simulation
+  
+  // Tax table projection
+  startYear?: number; // Calendar tax year of simulation year 1 (defaults to current year)
+  taxInflationRate: number; // Annual bracket/deduction indexing beyond published tables (e.g., 0.025)
   
   // Tax rate analysis
   enableRetirementBracketAnalysis: boolean;
@@ -41,23 +295,65 @@ export interface UserInputs {
 
 export interface SimulationResult {
   year: number;
+  taxYear: number; // Calendar tax year used for brackets and deductions
   age1: number;
   age2: number;
   traditionalBalance: number;
   rothBalance: number;
+  traditionalBalances: number[]; // Per spouse (you, spouse)
+  rothBalances: number[];
   taxableBalance?: number;
+  filingStatus: FilingStatus; // Single for the survivor after a death
+  taxpayerAges: number[]; // Living spouses
   conversionAmount: number;
   conversionTax: number;
+  taxWithheld: number; // Withheld from the conversion instead of reaching the Roth
+  earlyWithdrawalPenalty: number; // 10% penalty on withholding before 59½
   marginalTaxRate: number;
-  rmdAmount: number;
+  rmdAmount: number; // Required distribution, including any part satisfied by a QCD
   rmdTax: number;
+  qcdAmount: number; // Sent to charity from the IRA; never taxed
+  qlacPurchase: number; // QLAC premium moved out of the IRA this year
+  qlacIncome: number;
   cumulativeTaxPaid: number;
   totalAfterTaxWealth: number;
   noConversionWealth: number;
   conversionWealth: number;
+  heirTax: number; // Heirs' tax on the inherited traditional balance, discounted to this year
+  noConversionHeirTax: number;
+  legacyValue: number; // After-tax value to heirs inheriting at the end of this year
+  noConversionLegacyValue: number;
   breakEven: boolean;
   isRetired: boolean;
-  annualIncome: number; // Add current year's income
+  annualIncome: number; // Income streams paid this year
+  socialSecurityBenefits: number;
+  taxableSocialSecurity: number; // Taxable portion after RMDs and conversions
+  magi: number; // Drives IRMAA two years later
+  investmentIncome: number; // Dividends, interest and realized gains from the taxable account
+  investmentIncomeTax: number; // Includes capital gains tax and NIIT
+  taxableCostBasis?: number;
+  irmaaSurcharge: number; // Medicare premium surcharge paid this year
+  premiumTaxCredit: number; // ACA credit received this year
+  acaSubsidyLost: number; // Credit given up because of the conversion
+  deduction: number; // Federal deduction taken (standard incl. age 65+, or itemized)
+  itemized: boolean;
+  baseIncome: IncomeComponents; // Income before this year's conversion (including any RMD)
+  iraTaxDistribution: number; // Taken from the traditional IRA to cover a taxable-account shortfall
+  shortfall: number; // Taxes left unfunded this year; the plan is infeasible when positive
+  spending: number; // Spending target this year, in that year's dollars
+  taxableWithdrawal: number;
+  traditionalWithdrawal: number;
+  rothWithdrawal: number;
+  withdrawalTax: number; // Tax (and any early-withdrawal penalty) on spending withdrawals
+  unmetSpending: number; // Spending no account could cover
+  rothContributions: number; // Roth basis from contributions, after this year's withdrawals
+  rothTranches: RothConversionTranche[]; // Conversions still in the Roth
+  rothEarnings: number;
+  rothPenaltyFree: number; // Available next year without tax or penalty
+  rothPenalizedWithdrawal: number; // Unseasoned conversions and earnings withdrawn before 59½
+  rothWithdrawalPenalty: number; // Included in withdrawalTax
+  noConversionCumulativeTaxPaid: number;
+  warnings: string[];
 }
 
 export interface MonteCarloResult {